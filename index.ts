@@ -16,14 +16,24 @@
 import {
   startServer,
   PlayerEvent,
+  PlayerUIEvent,
+  Player,
   BlockType,
   Vector3Like,
   Audio,
 } from 'hytopia';
 
 import worldMap from './assets/map.json';
+import defaultCourse from './assets/courses/default-course.json';
 import GolfPlayerEntity from './src/entities/GolfPlayerEntity.ts';
-import GolfGameManager from './src/managers/GolfGameManager.ts';
+import GolfLobbyManager, { DEFAULT_GROUP_NAME } from './src/managers/GolfLobbyManager.ts';
+import { SPECTATOR_VIEWS, type SpectatorView } from './src/managers/CameraDirector.ts';
+import GolfCourseLoader from './src/course/GolfCourseLoader.ts';
+import { generateCourse, parseParMix } from './src/course/CourseGenerator.ts';
+import RoundHistoryStore from './src/persistence/RoundHistoryStore.ts';
+import { parseGolfUIMessage, type GolfGameMode } from './src/managers/GolfGameManager.ts';
+import { DEFAULT_STABLEFORD_POINTS, type StablefordPointsTable } from './src/scoring/Stableford.ts';
+import type { CourseData } from './src/course/CourseData.ts';
 
 /**
  * Start our golf game server following Hytopia SDK guidelines
@@ -57,14 +67,49 @@ startServer(world => {
   setupGolfCourseBlocks(world);
 
   /**
-   * Build a basic golf course using the blocks
+   * Build the golf course from its course data file, or generate one when a seed is set
+   * This paints the terrain and gives us the hole list for the game
    */
-  buildGolfCourse(world);
+  const course = new GolfCourseLoader(world).load(loadCourseData());
 
   /**
-   * Initialize the golf game manager
+   * Load past rounds so scorecards survive server restarts
    */
-  const golfGameManager = new GolfGameManager(world);
+  const roundHistory = new RoundHistoryStore();
+
+  /**
+   * Initialize the lobby, where each group of players runs its own golf game
+   */
+  const lobby = new GolfLobbyManager(world, course, roundHistory);
+
+  // Game modes by the names players type in commands
+  const modeNames: Record<string, GolfGameMode> = {
+    stroke: 'stroke-play',
+    match: 'match-play',
+    stableford: 'stableford',
+    scramble: 'scramble',
+    bestball: 'best-ball',
+    alternate: 'alternate-shot',
+  };
+
+  // Commands act on the game in the player's own group
+  const gameFor = (player: Player) => lobby.getManagerForPlayer(player);
+
+  // Only the group's host may run some commands; tell anyone else who to ask
+  const requireHost = (player: Player, action: string): boolean => {
+    if (lobby.isHost(player)) return true;
+
+    const group = lobby.getGroupForPlayer(player);
+    const host = group ? lobby.getHost(group) : undefined;
+    world.chatManager.sendPlayerMessage(
+      player,
+      host
+        ? `🔒 Only the host (${host.player.username}) can ${action}`
+        : `🔒 The host has left - use /endgolf to vote to end this game first`,
+      'FF8800',
+    );
+    return false;
+  };
 
   /**
    * Play peaceful golf course ambient music
@@ -99,8 +144,16 @@ startServer(world => {
     // Load golf-specific UI
     player.ui.load('ui/golf-hud.html');
 
-    // Add player to golf game
-    golfGameManager.addPlayer(player, golfPlayerEntity);
+    // Route HUD buttons (relief choices, etc.) to the player's group's game, dropping anything malformed
+    player.ui.on(PlayerUIEvent.DATA, ({ data }) => {
+      const message = parseGolfUIMessage(data);
+      if (message) {
+        lobby.handlePlayerUIData(player, message);
+      }
+    });
+
+    // Add player to the clubhouse group
+    lobby.addPlayer(player, golfPlayerEntity);
 
     // Send welcome messages with golf instructions
     world.chatManager.sendPlayerMessage(player, '🏌️ Welcome to Hytopia Golf!', '00FF88');
@@ -108,8 +161,11 @@ startServer(world => {
     world.chatManager.sendPlayerMessage(player, '  🎯 Mouse: Aim your shot', 'FFFFFF');
     world.chatManager.sendPlayerMessage(player, '  ⚡ Hold SPACE: Charge power', 'FFFFFF');
     world.chatManager.sendPlayerMessage(player, '  🎥 Press F: Toggle aiming mode', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '  🏌️ Press Q / E: Change club', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '  ↪️ Press C: Straight / draw / fade', 'FFFFFF');
     world.chatManager.sendPlayerMessage(player, '  🔄 Press R: Reset ball (if stuck)', 'FFFFFF');
     world.chatManager.sendPlayerMessage(player, '📊 Type /startgolf to begin the game!', '00FFFF');
+    world.chatManager.sendPlayerMessage(player, `👥 You're in the ${DEFAULT_GROUP_NAME} group - type /groups to see other games`, '00FFFF');
   });
 
   /**
@@ -119,8 +175,8 @@ startServer(world => {
   world.on(PlayerEvent.LEFT_WORLD, ({ player }) => {
     console.log(`⛳ Player ${player.username} left the golf game`);
     
-    // Remove player from golf game
-    golfGameManager.removePlayer(player);
+    // Remove player from their group's game
+    lobby.removePlayer(player);
     
     // Clean up player entities
     world.entityManager.getPlayerEntitiesByPlayer(player).forEach(entity => entity.despawn());
@@ -131,38 +187,412 @@ startServer(world => {
    */
   
   // Start golf game command
-  world.chatManager.registerCommand('/startgolf', player => {
-    golfGameManager.startGame();
-    world.chatManager.sendWorldMessage('🏌️ Golf game started! Good luck everyone!', '00FF88');
+  // e.g. /startgolf stableford net birdie=4 par=2, /startgolf simultaneous cap=8 clock=30 (no shot clock without clock=)
+  world.chatManager.registerCommand('/startgolf', (player, args) => {
+    if (!requireHost(player, 'start a game')) return;
+
+    // Everyone has to be ready before the host tees off
+    const unready = lobby.getUnreadyPlayers(player);
+    if (unready.length > 0) {
+      world.chatManager.sendPlayerMessage(
+        player,
+        `⏳ Waiting for ${unready.map(other => other.username).join(', ')} to /ready`,
+        'FF8800',
+      );
+      lobby.sendGroupMessage(player, `⏳ ${player.username} wants to start - type /ready when you are`, 'FFFF00');
+      return;
+    }
+
+    const mode = modeNames[args[0] ?? ''] ?? 'stroke-play';
+
+    // Stableford events can score net and override points for any result
+    const points: Partial<StablefordPointsTable> = {};
+    let strokeCap: number | undefined;
+    let shotClockSeconds: number | undefined;
+    const invalid: string[] = [];
+    args.forEach(arg => {
+      const [scoreType, value] = arg.split('=');
+      if (!scoreType || value === undefined) return;
+
+      // The stroke cap and shot clock are whole numbers: a cap of at least one stroke,
+      // and any number of seconds (0 leaves the clock off)
+      const number = value.trim() === '' ? NaN : Number(value);
+      if (scoreType === 'cap') {
+        if (Number.isInteger(number) && number > 0) strokeCap = number;
+        else invalid.push(`cap must be a whole number of strokes above 0 (got "${value}")`);
+      } else if (scoreType === 'clock') {
+        if (Number.isInteger(number) && number >= 0) shotClockSeconds = number;
+        else invalid.push(`clock must be a whole number of seconds (got "${value}")`);
+      } else if (scoreType in DEFAULT_STABLEFORD_POINTS && !isNaN(number)) {
+        points[scoreType as keyof StablefordPointsTable] = number;
+      }
+    });
+
+    if (invalid.length > 0) {
+      world.chatManager.sendPlayerMessage(player, `⛳ Could not start - ${invalid.join(', ')}`, 'FF8800');
+      return;
+    }
+
+    const simultaneous = args.includes('simultaneous');
+    const started = gameFor(player)?.startGame(mode, {
+      stableford: { net: args.includes('net'), points },
+      simultaneous,
+      strokeCap,
+      shotClock: shotClockSeconds ? { seconds: shotClockSeconds } : undefined,
+    });
+
+    if (!started) {
+      world.chatManager.sendPlayerMessage(
+        player,
+        '⛳ Could not start - match play needs two players, and scramble or alternate shot can\'t be simultaneous',
+        'FF8800',
+      );
+      return;
+    }
+
+    lobby.resetReadyCheck(player);
+    const style = simultaneous ? ', everyone at once' : '';
+    lobby.sendGroupMessage(player, `🏌️ Golf game started (${mode.replace('-', ' ')}${style})! Good luck everyone!`, '00FF88');
   });
 
-  // End golf game command
+  // End golf game command: the host ends it, or the group votes while there's no host
   world.chatManager.registerCommand('/endgolf', player => {
-    golfGameManager.endGame();
-    world.chatManager.sendWorldMessage('⛳ Golf game ended!', 'FF8800');
+    const group = lobby.getGroupForPlayer(player);
+    if (!group || !group.manager.getGameState().inProgress) {
+      world.chatManager.sendPlayerMessage(player, '⛳ No golf game in progress', 'FF8800');
+      return;
+    }
+
+    if (!lobby.getHost(group)) {
+      const vote = lobby.voteToEndGame(player);
+      if (!vote) return;
+
+      lobby.sendGroupMessage(
+        player,
+        vote.passed
+          ? '⛳ The group voted to end the game!'
+          : `🗳️ ${player.username} voted to end the game (${vote.votes}/${vote.needed}) - type /endgolf to agree`,
+        'FF8800',
+      );
+      return;
+    }
+
+    if (!requireHost(player, 'end the game')) return;
+
+    group.manager.endGame();
+    lobby.sendGroupMessage(player, '⛳ Golf game ended!', 'FF8800');
+  });
+
+  // Ready up for the host's next game
+  world.chatManager.registerCommand('/ready', player => {
+    lobby.setReady(player, true);
+    const waiting = lobby.getUnreadyPlayers(player).length;
+    lobby.sendGroupMessage(
+      player,
+      `✅ ${player.username} is ready${waiting > 0 ? ` (waiting on ${waiting} more)` : ' - everyone is ready!'}`,
+      '00FF88',
+    );
+  });
+
+  world.chatManager.registerCommand('/unready', player => {
+    lobby.setReady(player, false);
+    lobby.sendGroupMessage(player, `⏳ ${player.username} is no longer ready`, 'FFFF00');
+  });
+
+  // Show or hand over the host role
+  world.chatManager.registerCommand('/host', (player, args) => {
+    const group = lobby.getGroupForPlayer(player);
+    const username = args[0];
+    if (!group) return;
+
+    if (!username) {
+      const host = lobby.getHost(group);
+      world.chatManager.sendPlayerMessage(player, `👑 Host: ${host?.player.username ?? 'nobody (left mid-game)'}`, 'FFFF00');
+      return;
+    }
+
+    if (!requireHost(player, 'hand over hosting')) return;
+
+    const newHost = lobby.transferHost(player, username);
+    if (!newHost) {
+      world.chatManager.sendPlayerMessage(player, `⛳ ${username} isn't in your group`, 'FF8800');
+      return;
+    }
+
+    lobby.sendGroupMessage(player, `👑 ${newHost.player.username} is now the host`, 'FFFF00');
+  });
+
+  // Create, join or leave a group with its own game
+  // e.g. /group create Back Nine, /group join back nine, /group leave
+  world.chatManager.registerCommand('/group', (player, args) => {
+    const action = args[0];
+    const name = args.slice(1).join(' ').trim();
+    const previousGroup = lobby.getGroupForPlayer(player);
+
+    if (action === 'create' && name) {
+      const group = lobby.createGroup(player, name);
+      if (!group) {
+        world.chatManager.sendPlayerMessage(player, `⛳ A group called ${name} already exists - use /group join ${name}`, 'FF8800');
+        return;
+      }
+
+      world.chatManager.sendPlayerMessage(player, `👥 Created group ${group.name} - friends can /group join ${group.name}`, '00FF88');
+    } else if (action === 'join' && name) {
+      const group = lobby.joinGroup(player, name);
+      if (!group) {
+        world.chatManager.sendPlayerMessage(player, `⛳ No group called ${name} to join - type /groups to see them`, 'FF8800');
+        return;
+      }
+
+      lobby.sendGroupMessage(player, `👥 ${player.username} joined ${group.name}`, '00FF88');
+    } else if (action === 'leave') {
+      if (!lobby.leaveGroup(player)) {
+        world.chatManager.sendPlayerMessage(player, `⛳ You're already in the ${DEFAULT_GROUP_NAME}`, 'FF8800');
+        return;
+      }
+
+      world.chatManager.sendPlayerMessage(player, `👥 Back in the ${DEFAULT_GROUP_NAME}`, '00FF88');
+    } else {
+      world.chatManager.sendPlayerMessage(player, '⛳ Usage: /group create <name> | join <name> | leave', 'FF8800');
+      return;
+    }
+
+    previousGroup?.members.forEach(member => {
+      world.chatManager.sendPlayerMessage(member.player, `👥 ${player.username} left ${previousGroup.name}`, 'FFFFFF');
+    });
+  });
+
+  // Watch a group's game without playing; /group join or /group leave to play again
+  world.chatManager.registerCommand('/spectate', (player, args) => {
+    const name = args.join(' ').trim();
+    const group = name ? lobby.spectateGroup(player, name) : undefined;
+    if (!group) {
+      world.chatManager.sendPlayerMessage(player, '⛳ Usage: /spectate <group> - type /groups to see them', 'FF8800');
+      return;
+    }
+
+    world.chatManager.sendPlayerMessage(player, `👀 Watching ${group.name} - /cam to choose your view, /group join ${group.name} to play`, '00FF88');
+  });
+
+  // Choose where the camera goes between shots, or free roam to turn off the ball-cam
+  world.chatManager.registerCommand('/cam', (player, args) => {
+    const view = args[0] as SpectatorView;
+    if (!SPECTATOR_VIEWS.includes(view) || !gameFor(player)?.setCameraView(player, view)) {
+      world.chatManager.sendPlayerMessage(player, `⛳ Usage: /cam ${SPECTATOR_VIEWS.join(' | ')}`, 'FF8800');
+      return;
+    }
+
+    const descriptions: Record<SpectatorView, string> = {
+      player: 'back to your golfer after each shot',
+      tee: 'behind the tee between shots',
+      green: 'beside the green between shots',
+      free: 'free roam - the ball-cam is off',
+    };
+    world.chatManager.sendPlayerMessage(player, `🎥 Camera: ${descriptions[view]}`, '00FF88');
+  });
+
+  // List the groups on the server
+  world.chatManager.registerCommand('/groups', player => {
+    const currentGroup = lobby.getGroupForPlayer(player);
+
+    world.chatManager.sendPlayerMessage(player, '👥 Groups:', 'FFFF00');
+    lobby.getGroupSummaries().forEach(group => {
+      const status = group.inProgress ? `playing hole ${group.currentHole}` : 'waiting';
+      const marker = group.name === currentGroup?.name ? ' (you)' : '';
+      const host = group.host ? `, host ${group.host}` : '';
+      const watching = group.spectators > 0 ? `, ${group.spectators} watching` : '';
+      world.chatManager.sendPlayerMessage(
+        player,
+        `${group.name}${marker}: ${group.players.join(', ') || 'empty'} - ${status}${host}${watching}`,
+        'FFFFFF',
+      );
+    });
+  });
+
+  // Choose swing mechanic command
+  world.chatManager.registerCommand('/swingmeter', (player, args) => {
+    const mode = args[0] === 'classic' ? 'three-click' : args[0] === 'hold' ? 'hold' : undefined;
+    if (!mode) {
+      world.chatManager.sendPlayerMessage(player, '⛳ Usage: /swingmeter classic | hold', 'FF8800');
+      return;
+    }
+
+    world.entityManager.getPlayerEntitiesByPlayer(player).forEach(entity => {
+      if (entity instanceof GolfPlayerEntity) {
+        entity.setSwingMode(mode);
+      }
+    });
+    world.chatManager.sendPlayerMessage(player, `🏌️ Swing meter set to ${args[0]}`, '00FF88');
+  });
+
+  // Take penalty relief command
+  world.chatManager.registerCommand('/drop', (player, args) => {
+    const option = args[0];
+    if (!option || !gameFor(player)?.chooseRelief(player, option)) {
+      world.chatManager.sendPlayerMessage(player, '⛳ No relief option to take. Usage: /drop replay | back-on-line | lateral', 'FF8800');
+    }
+  });
+
+  // Choose a team for the next team game
+  world.chatManager.registerCommand('/team', (player, args) => {
+    const teamName = args.join(' ').trim();
+    gameFor(player)?.setPlayerTeam(player, teamName || undefined);
+    world.chatManager.sendPlayerMessage(
+      player,
+      teamName ? `👥 You'll play on team ${teamName}` : '👥 You\'ll be paired up automatically',
+      '00FF88',
+    );
+  });
+
+  // Choose the scramble ball the team plays on from
+  world.chatManager.registerCommand('/pick', (player, args) => {
+    const ballOwner = args[0];
+    if (!ballOwner || !gameFor(player)?.chooseScrambleBall(player, ballOwner)) {
+      world.chatManager.sendPlayerMessage(player, '⛳ No scramble ball to pick. Usage: /pick <teammate>', 'FF8800');
+    }
+  });
+
+  // Pick up when no more Stableford points can be scored
+  world.chatManager.registerCommand('/pickup', player => {
+    if (!gameFor(player)?.pickUp(player)) {
+      world.chatManager.sendPlayerMessage(player, '⛳ You can only pick up in Stableford once you can\'t score on the hole', 'FF8800');
+    }
+  });
+
+  // Concede a putt or hole in match play
+  world.chatManager.registerCommand('/concede', (player, args) => {
+    const conceded = args[0] === 'putt'
+      ? gameFor(player)?.concedePutt(player)
+      : args[0] === 'hole'
+        ? gameFor(player)?.concedeHole(player)
+        : false;
+
+    if (!conceded) {
+      world.chatManager.sendPlayerMessage(player, '⛳ Nothing to concede. Usage: /concede putt | hole (match play)', 'FF8800');
+    }
+  });
+
+  // Watch the round's last or best shot again, or share it as JSON
+  // e.g. /replay, /replay best, /replay export best
+  world.chatManager.registerCommand('/replay', (player, args) => {
+    const game = gameFor(player);
+    const exporting = args[0] === 'export';
+    const choice = args[exporting ? 1 : 0] === 'best' ? 'best' : 'last';
+
+    if (exporting) {
+      if (!game?.exportReplayShot(player, choice)) {
+        world.chatManager.sendPlayerMessage(player, '⛳ No shot to share yet', 'FF8800');
+        return;
+      }
+
+      world.chatManager.sendPlayerMessage(player, `📋 The ${choice} shot's JSON is on your screen to copy`, '00FF88');
+      return;
+    }
+
+    if (!game?.replayShot(player, choice)) {
+      world.chatManager.sendPlayerMessage(player, '⛳ No shot to replay yet - or it\'s your turn to play', 'FF8800');
+    }
+  });
+
+  // Show the player's recent rounds
+  world.chatManager.registerCommand('/history', player => {
+    const rounds = roundHistory.getPlayerRounds(player.id, 5);
+    gameFor(player)?.sendPlayerHistory(player);
+
+    if (rounds.length === 0) {
+      world.chatManager.sendPlayerMessage(player, '⛳ No completed rounds yet', 'FF8800');
+      return;
+    }
+
+    world.chatManager.sendPlayerMessage(player, '📜 Your Recent Rounds:', 'FFFF00');
+    rounds.forEach(round => {
+      const toPar = round.toPar === 0 ? 'E' : round.toPar > 0 ? `+${round.toPar}` : `${round.toPar}`;
+      const date = new Date(round.playedAt).toLocaleDateString();
+      world.chatManager.sendPlayerMessage(
+        player,
+        `${date} ${round.courseName}: ${round.totalStrokes} (${toPar}) - ${round.strokes.join(' ')}`,
+        'FFFFFF',
+      );
+    });
+  });
+
+  // Show the player's personal bests
+  world.chatManager.registerCommand('/bests', player => {
+    const bests = roundHistory.getPersonalBests(player.id);
+    gameFor(player)?.sendPlayerHistory(player);
+
+    if (bests.roundsPlayed === 0) {
+      world.chatManager.sendPlayerMessage(player, '⛳ No completed rounds yet', 'FF8800');
+      return;
+    }
+
+    const handicapIndex = roundHistory.getHandicapIndex(player.id);
+    world.chatManager.sendPlayerMessage(player, `🏆 Personal Bests (${bests.roundsPlayed} rounds, ${bests.holesInOne} holes in one):`, 'FFFF00');
+    world.chatManager.sendPlayerMessage(
+      player,
+      handicapIndex === undefined ? '⛳ Handicap index: play 3 rounds to get one' : `⛳ Handicap index: ${handicapIndex.toFixed(1)}`,
+      'FFFFFF',
+    );
+    bests.courses.forEach(course => {
+      const { bestRound } = course;
+      const toPar = bestRound.toPar === 0 ? 'E' : bestRound.toPar > 0 ? `+${bestRound.toPar}` : `${bestRound.toPar}`;
+      world.chatManager.sendPlayerMessage(
+        player,
+        `${course.courseName}: ${bestRound.totalStrokes} (${toPar}) - best holes ${course.bestHoles.map(strokes => strokes ?? '-').join(' ')}`,
+        'FFFFFF',
+      );
+    });
   });
 
   // Show golf help command
   world.chatManager.registerCommand('/golfhelp', player => {
     world.chatManager.sendPlayerMessage(player, '🏌️ Golf Game Commands:', 'FFFF00');
-    world.chatManager.sendPlayerMessage(player, '/startgolf - Start a new golf game', 'FFFFFF');
-    world.chatManager.sendPlayerMessage(player, '/endgolf - End current golf game', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/startgolf [match|stableford|scramble|bestball|alternate] [simultaneous] [clock=secs] - Start a new golf game (host)', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/endgolf - End current golf game (host, or vote without one)', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/group create|join|leave [name] - Play in your own group', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/groups - List groups and their games', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/spectate <group> - Watch a group\'s game', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/cam player|tee|green|free - Where the camera goes between shots', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/replay [export] [last|best] - Watch or share a shot from the round', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/leaderboard [course] [mode] - All-time course leaderboard', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/ready, /unready - Ready up for the next game', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/host [player] - Show the host, or hand hosting over', 'FFFFFF');
     world.chatManager.sendPlayerMessage(player, '/golfscore - Show current scores', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/drop <option> - Take penalty relief', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/concede putt|hole - Concede in match play', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/pickup - Pick up when you can\'t score (Stableford)', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/team [name] - Choose a team for team games', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/pick <teammate> - Choose the scramble ball to play', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/swingmeter classic|hold - Choose your swing meter', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/history - Show your recent rounds', 'FFFFFF');
+    world.chatManager.sendPlayerMessage(player, '/bests - Show your personal bests', 'FFFFFF');
     world.chatManager.sendPlayerMessage(player, '/golfhelp - Show this help', 'FFFFFF');
   });
 
   // Show current golf scores
   world.chatManager.registerCommand('/golfscore', player => {
-    const gameState = golfGameManager.getGameState();
+    const gameState = gameFor(player)?.getGameState();
     
-    if (!gameState.inProgress) {
-      world.chatManager.sendPlayerMessage(player, '⛳ No golf game in progress', 'FF8800');
+    if (!gameState?.inProgress) {
+      world.chatManager.sendPlayerMessage(player, '⛳ No golf game in progress - /leaderboard shows the all-time records', 'FF8800');
       return;
     }
 
     world.chatManager.sendPlayerMessage(player, '📊 Current Golf Scores:', 'FFFF00');
     world.chatManager.sendPlayerMessage(player, `🏌️ Hole: ${gameState.currentHole}/${gameState.totalHoles}`, 'FFFFFF');
     world.chatManager.sendPlayerMessage(player, `⭐ Current Player: ${gameState.currentPlayer}`, 'FFFFFF');
+
+    if (gameState.match) {
+      world.chatManager.sendPlayerMessage(player, `🤝 ${gameState.match.description}`, 'FFFFFF');
+    }
+
+    gameState.teams?.forEach((team, index) => {
+      world.chatManager.sendPlayerMessage(
+        player,
+        `👥 ${index + 1}. ${team.name}: ${team.totalStrokes} strokes thru ${team.thru}`,
+        'FFFFFF',
+      );
+    });
     
     if (gameState.leaderboard) {
       gameState.leaderboard.forEach((score, index) => {
@@ -170,13 +600,60 @@ startServer(world => {
         const medal = position === 1 ? '🥇' : position === 2 ? '🥈' : position === 3 ? '🥉' : '🏌️';
         world.chatManager.sendPlayerMessage(
           player, 
-          `${medal} ${position}. ${score.playerName}: ${score.totalStrokes} strokes`, 
+          score.points !== undefined
+            ? `${medal} ${position}. ${score.playerName}: ${score.points} points (${score.totalStrokes} strokes)`
+            : `${medal} ${position}. ${score.playerName}: ${score.totalStrokes} strokes (net ${score.netStrokes})`, 
           'FFFFFF'
         );
       });
     }
   });
 
+  // All-time leaderboard for a course, this one by default, in one mode or all individual modes
+  // e.g. /leaderboard, /leaderboard stableford, /leaderboard Hytopia Links match
+  world.chatManager.registerCommand('/leaderboard', (player, args) => {
+    const mode = modeNames[args[args.length - 1] ?? ''];
+    const courseName = (mode ? args.slice(0, -1) : args).join(' ').trim();
+    const courseId = courseName ? roundHistory.findCourseId(courseName) : course.id;
+    const leaderboard = courseId ? gameFor(player)?.sendCourseLeaderboard(player, courseId, mode) : undefined;
+
+    if (!leaderboard || leaderboard.roundsPlayed === 0) {
+      const where = courseName || course.name;
+      world.chatManager.sendPlayerMessage(player, `⛳ No rounds on record for ${where}${mode ? ` (${args[args.length - 1]})` : ''}`, 'FF8800');
+      return;
+    }
+
+    const formatToPar = (toPar: number) => toPar === 0 ? 'E' : toPar > 0 ? `+${toPar}` : `${toPar}`;
+    const modeLabel = leaderboard.mode ? leaderboard.mode.replace('-', ' ') : 'all modes';
+    world.chatManager.sendPlayerMessage(player, `🏆 ${leaderboard.courseName} leaderboard (${modeLabel}, ${leaderboard.roundsPlayed} rounds):`, 'FFFF00');
+
+    // Stableford boards rank by points, everything else by gross strokes
+    if (leaderboard.mode === 'stableford') {
+      leaderboard.bestPoints.forEach((entry, index) => {
+        world.chatManager.sendPlayerMessage(player, `${index + 1}. ${entry.username}: ${entry.score} points`, 'FFFFFF');
+      });
+    } else {
+      leaderboard.bestGross.forEach((entry, index) => {
+        world.chatManager.sendPlayerMessage(player, `${index + 1}. ${entry.username}: ${entry.score} (${formatToPar(entry.toPar)})`, 'FFFFFF');
+      });
+    }
+
+    const bestNet = leaderboard.bestNet[0];
+    if (bestNet) {
+      world.chatManager.sendPlayerMessage(player, `⚖️ Best net: ${bestNet.username} ${bestNet.score} (${formatToPar(bestNet.toPar)})`, 'FFFFFF');
+    }
+
+    const holeRecords = leaderboard.bestHoles
+      .map(hole => hole ? `${hole.holeNumber}: ${hole.strokes} (${hole.username})` : undefined)
+      .filter(Boolean);
+    world.chatManager.sendPlayerMessage(player, `⛳ Hole records - ${holeRecords.join(', ')}`, 'FFFFFF');
+
+    const aces = leaderboard.mostHolesInOne[0];
+    if (aces) {
+      world.chatManager.sendPlayerMessage(player, `🎯 Most holes in one: ${aces.username} (${aces.holesInOne})`, 'FFFFFF');
+    }
+  });
+
   /**
    * Fun easter egg commands (keeping some from original boilerplate)
    */
@@ -201,6 +678,35 @@ startServer(world => {
   console.log('⛳ Players can join and use /startgolf to begin playing');
 });
 
+/**
+ * Pick the course to build: GOLF_COURSE_SEED generates one (shaped by GOLF_COURSE_HOLES,
+ * GOLF_COURSE_PARS, GOLF_COURSE_HAZARDS and GOLF_COURSE_LENGTH), otherwise the default course
+ */
+function loadCourseData(): CourseData {
+  const seed = process.env.GOLF_COURSE_SEED?.trim();
+  if (!seed) return defaultCourse as CourseData;
+
+  const readNumber = (name: string) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) ? value : undefined;
+  };
+  const parMix = process.env.GOLF_COURSE_PARS ? parseParMix(process.env.GOLF_COURSE_PARS) : undefined;
+  if (process.env.GOLF_COURSE_PARS && !parMix) {
+    console.warn(`GOLF_COURSE_PARS "${process.env.GOLF_COURSE_PARS}" isn't three weights like "1,2,1" - using the default mix`);
+  }
+
+  const course = generateCourse({
+    seed,
+    holes: readNumber('GOLF_COURSE_HOLES'),
+    parMix,
+    hazardDensity: readNumber('GOLF_COURSE_HAZARDS'),
+    length: readNumber('GOLF_COURSE_LENGTH'),
+  });
+
+  console.log(`🎲 Generated course ${course.name} (${course.holes.length} holes, par ${course.holes.reduce((par, hole) => par + hole.par, 0)})`);
+  return course;
+}
+
 /**
  * Set up custom block types for golf course
  * Following SDK guidelines for block type registration
@@ -251,183 +757,3 @@ function setupGolfCourseBlocks(world: any): void {
 
   console.log('⛳ Golf course block types registered');
 }
-
-/**
- * Build a basic golf course using default blocks
- * Creates a simple 3-hole course layout
- */
-function buildGolfCourse(world: any): void {
-  console.log('🏗️ Building golf course...');
-
-  // Build Hole 1 - Starter hole (Par 3)
-  buildHole1(world);
-  
-  // Build Hole 2 - Dogleg right (Par 4) 
-  buildHole2(world);
-  
-  // Build Hole 3 - Long drive (Par 5)
-  buildHole3(world);
-
-  // Add some decorative elements
-  addCourseDecorations(world);
-
-  console.log('⛳ Golf course construction completed!');
-}
-
-/**
- * Build Hole 1 - Simple straight hole
- */
-function buildHole1(world: any): void {
-  // Tee area
-  buildRectangle(world, { x: -12, y: 1, z: -2 }, { x: -8, y: 1, z: 2 }, 104); // Tee markers
-  buildRectangle(world, { x: -11, y: 2, z: -1 }, { x: -9, y: 2, z: 1 }, 100); // Fairway on tee
-
-  // Fairway
-  buildRectangle(world, { x: -8, y: 1, z: -3 }, { x: 8, y: 1, z: 3 }, 100); // Main fairway
-
-  // Rough around fairway
-  buildRectangle(world, { x: -8, y: 1, z: -5 }, { x: 8, y: 1, z: -4 }, 101); // North rough
-  buildRectangle(world, { x: -8, y: 1, z: 4 }, { x: 8, y: 1, z: 5 }, 101);   // South rough
-
-  // Green area
-  buildCircle(world, { x: 10, y: 1, z: 0 }, 3, 105); // Putting green
-
-  // Hole marker (small stone circle)
-  buildCircle(world, { x: 10, y: 2, z: 0 }, 1, 104);
-}
-
-/**
- * Build Hole 2 - Dogleg right with sand trap
- */
-function buildHole2(world: any): void {
-  // Tee area
-  buildRectangle(world, { x: -17, y: 1, z: 8 }, { x: -13, y: 1, z: 12 }, 104);
-  buildRectangle(world, { x: -16, y: 2, z: 9 }, { x: -14, y: 2, z: 11 }, 100);
-
-  // First part of fairway (straight)
-  buildRectangle(world, { x: -13, y: 1, z: 7 }, { x: -3, y: 1, z: 13 }, 100);
-
-  // Dogleg part (turning right)
-  buildRectangle(world, { x: -3, y: 1, z: 7 }, { x: 5, y: 1, z: 10 }, 100);
-  buildRectangle(world, { x: 5, y: 1, z: -7 }, { x: 8, y: 1, z: 7 }, 100);
-
-  // Sand trap in the corner of dogleg
-  buildCircle(world, { x: 0, y: 1, z: 5 }, 2, 102);
-
-  // Green
-  buildCircle(world, { x: 15, y: 1, z: -5 }, 3, 105);
-  buildCircle(world, { x: 15, y: 2, z: -5 }, 1, 104);
-
-  // Rough areas
-  buildRectangle(world, { x: -13, y: 1, z: 14 }, { x: -3, y: 1, z: 16 }, 101);
-  buildRectangle(world, { x: -13, y: 1, z: 5 }, { x: -3, y: 1, z: 6 }, 101);
-}
-
-/**
- * Build Hole 3 - Long par 5 with water hazard
- */
-function buildHole3(world: any): void {
-  // Tee area
-  buildRectangle(world, { x: -2, y: 1, z: -22 }, { x: 2, y: 1, z: -18 }, 104);
-  buildRectangle(world, { x: -1, y: 2, z: -21 }, { x: 1, y: 2, z: -19 }, 100);
-
-  // Long fairway
-  buildRectangle(world, { x: -4, y: 1, z: -18 }, { x: 4, y: 1, z: 15 }, 100);
-
-  // Water hazard across the fairway
-  buildRectangle(world, { x: -6, y: 1, z: 0 }, { x: 6, y: 1, z: 5 }, 103);
-
-  // Fairway continues after water
-  buildRectangle(world, { x: -4, y: 1, z: 15 }, { x: 4, y: 1, z: 22 }, 100);
-
-  // Large green
-  buildCircle(world, { x: 0, y: 1, z: 25 }, 4, 105);
-  buildCircle(world, { x: 0, y: 2, z: 25 }, 1, 104);
-
-  // Rough on sides
-  buildRectangle(world, { x: -7, y: 1, z: -18 }, { x: -5, y: 1, z: 22 }, 101);
-  buildRectangle(world, { x: 5, y: 1, z: -18 }, { x: 7, y: 1, z: 22 }, 101);
-}
-
-/**
- * Add decorative elements to the course
- */
-function addCourseDecorations(world: any): void {
-  // Add some trees (using default blocks)
-  // These are just decorative block structures
-  
-  // Tree near hole 1
-  buildSimpleTree(world, { x: 15, y: 1, z: 8 });
-  buildSimpleTree(world, { x: 15, y: 1, z: -8 });
-  
-  // Trees around hole 2
-  buildSimpleTree(world, { x: -20, y: 1, z: 15 });
-  buildSimpleTree(world, { x: 18, y: 1, z: -10 });
-  
-  // Trees around hole 3
-  buildSimpleTree(world, { x: -10, y: 1, z: -25 });
-  buildSimpleTree(world, { x: 10, y: 1, z: -25 });
-  buildSimpleTree(world, { x: -8, y: 1, z: 30 });
-  buildSimpleTree(world, { x: 8, y: 1, z: 30 });
-}
-
-/**
- * Helper function to build a simple tree using blocks
- */
-function buildSimpleTree(world: any, position: Vector3Like): void {
-  // Trunk using stone blocks (safe block ID that exists)
-  world.chunkLattice.setBlock({ x: position.x, y: position.y + 1, z: position.z }, 1); // bricks for trunk
-  world.chunkLattice.setBlock({ x: position.x, y: position.y + 2, z: position.z }, 1); // bricks for trunk
-  world.chunkLattice.setBlock({ x: position.x, y: position.y + 3, z: position.z }, 1); // bricks for trunk
-  
-  // Leaves using grass blocks (green color for leaves)
-  for (let dx = -1; dx <= 1; dx++) {
-    for (let dz = -1; dz <= 1; dz++) {
-      if (dx === 0 && dz === 0) continue; // Skip center (trunk)
-      world.chunkLattice.setBlock({ 
-        x: position.x + dx, 
-        y: position.y + 3, 
-        z: position.z + dz 
-      }, 100); // Use our fairway grass for leaves
-      world.chunkLattice.setBlock({ 
-        x: position.x + dx, 
-        y: position.y + 4, 
-        z: position.z + dz 
-      }, 100); // Use our fairway grass for leaves
-    }
-  }
-}
-
-/**
- * Helper function to build a rectangle of blocks
- */
-function buildRectangle(world: any, corner1: Vector3Like, corner2: Vector3Like, blockId: number): void {
-  const minX = Math.min(corner1.x, corner2.x);
-  const maxX = Math.max(corner1.x, corner2.x);
-  const minY = Math.min(corner1.y, corner2.y);
-  const maxY = Math.max(corner1.y, corner2.y);
-  const minZ = Math.min(corner1.z, corner2.z);
-  const maxZ = Math.max(corner1.z, corner2.z);
-
-  for (let x = minX; x <= maxX; x++) {
-    for (let y = minY; y <= maxY; y++) {
-      for (let z = minZ; z <= maxZ; z++) {
-        world.chunkLattice.setBlock({ x, y, z }, blockId);
-      }
-    }
-  }
-}
-
-/**
- * Helper function to build a circle of blocks
- */
-function buildCircle(world: any, center: Vector3Like, radius: number, blockId: number): void {
-  for (let x = center.x - radius; x <= center.x + radius; x++) {
-    for (let z = center.z - radius; z <= center.z + radius; z++) {
-      const distance = Math.sqrt((x - center.x) ** 2 + (z - center.z) ** 2);
-      if (distance <= radius) {
-        world.chunkLattice.setBlock({ x, y: center.y, z }, blockId);
-      }
-    }
-  }
-}
\ No newline at end of file
@@ -0,0 +1,98 @@
+/**
+ * Course Data - JSON course format
+ * 
+ * Describes a golf course as plain data so new courses can ship
+ * without touching TypeScript:
+ * - Course rating and slope for handicaps
+ * - Hole metadata (par, stroke index, tee, pin, wind)
+ * - Terrain shapes painted with the golf block types
+ * - Decorations around each hole
+ */
+
+import type { Vector3Like } from 'hytopia';
+
+import type { WindSettings } from '../physics/Wind.ts';
+
+import type { GolfHole } from '../managers/GolfGameManager.ts';
+
+/**
+ * Course surfaces, each backed by one of the custom golf block types
+ */
+export type CourseSurface = 'fairway' | 'rough' | 'sand' | 'water' | 'tee' | 'green';
+
+export const SURFACE_BLOCK_IDS: Record<CourseSurface, number> = {
+  fairway: 100,
+  rough: 101,
+  sand: 102,
+  water: 103,
+  tee: 104,
+  green: 105,
+};
+
+/**
+ * Look up which course surface a block belongs to
+ */
+export function getSurfaceForBlockId(blockId: number): CourseSurface | undefined {
+  return (Object.keys(SURFACE_BLOCK_IDS) as CourseSurface[])
+    .find(surface => SURFACE_BLOCK_IDS[surface] === blockId);
+}
+
+export interface CourseRectangleData {
+  shape: 'rectangle';
+  surface: CourseSurface;
+  from: Vector3Like;   // One corner (inclusive)
+  to: Vector3Like;     // Opposite corner (inclusive)
+}
+
+export interface CourseCircleData {
+  shape: 'circle';
+  surface: CourseSurface;
+  center: Vector3Like;
+  radius: number;
+}
+
+export type CourseFeatureData = CourseRectangleData | CourseCircleData;
+
+export interface CourseDecorationData {
+  type: 'tree';
+  position: Vector3Like;
+}
+
+export interface CourseBoundsData {
+  min: Vector3Like;
+  max: Vector3Like;
+}
+
+export interface CourseHoleData {
+  id: number;
+  name: string;
+  par: number;
+  strokeIndex?: number;       // Handicap stroke order, 1 is the hardest hole; defaults to hole order
+  tee: Vector3Like;           // Where balls are teed up
+  pin: Vector3Like;           // Hole (cup) position
+  holeRadius?: number;        // Defaults to 0.5
+  bounds?: CourseBoundsData;  // In-bounds volume, defaults to the hole's footprint plus a margin
+  killHeight?: number;        // Balls falling below this are out of bounds
+  wind?: WindSettings;        // Scripted wind, random when left out
+  features: CourseFeatureData[];          // Painted in order, later shapes overwrite earlier ones
+  decorations?: CourseDecorationData[];
+}
+
+export interface CourseData {
+  id: string;
+  name: string;
+  rating?: number;            // Score a scratch golfer is expected to shoot, defaults to par
+  slope?: number;             // Relative difficulty for everyone else, defaults to 113
+  holes: CourseHoleData[];
+}
+
+/**
+ * A course that has been built into the world and is ready to play
+ */
+export interface GolfCourse {
+  id: string;
+  name: string;
+  rating: number;
+  slope: number;
+  holes: GolfHole[];
+}
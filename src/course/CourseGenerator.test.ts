@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { CourseBoundsData } from './CourseData.ts';
+import {
+  createSeededRandom,
+  DEFAULT_GENERATED_HOLES,
+  generateCourse,
+  getParForLength,
+  MAX_GENERATED_HOLES,
+  parseParMix,
+} from './CourseGenerator.ts';
+
+// Seen from above; touching edges don't count
+function overlaps(a: CourseBoundsData, b: CourseBoundsData): boolean {
+  return a.min.x < b.max.x && b.min.x < a.max.x && a.min.z < b.max.z && b.min.z < a.max.z;
+}
+
+describe('generateCourse', () => {
+  test('the same seed and options always build the same course', () => {
+    const options = { seed: 'links', holes: 12, parMix: { 3: 1, 4: 1, 5: 1 }, hazardDensity: 0.8, length: 0.3 };
+
+    expect(generateCourse(options)).toEqual(generateCourse(options));
+    expect(generateCourse({ seed: 42 })).toEqual(generateCourse({ seed: 42 }));
+    expect(generateCourse({ seed: 42 })).not.toEqual(generateCourse({ seed: 43 }));
+  });
+
+  test.each([1, DEFAULT_GENERATED_HOLES, MAX_GENERATED_HOLES])('%i holes never overlap each other\'s bounds', holes => {
+    const course = generateCourse({ seed: 'lanes', holes, hazardDensity: 1, length: 1 });
+
+    expect(course.holes).toHaveLength(holes);
+    course.holes.forEach((hole, holeIndex) => {
+      const bounds = hole.bounds!;
+      [hole.tee, hole.pin].forEach(point => expect(overlaps(bounds, { min: point, max: point })).toBe(true));
+
+      course.holes.slice(holeIndex + 1).forEach(other => expect(overlaps(bounds, other.bounds!)).toBe(false));
+    });
+  });
+
+  test('numbers holes in order and gives each a unique stroke index', () => {
+    const course = generateCourse({ seed: 'index' });
+
+    expect(course.holes.map(hole => hole.id)).toEqual(Array.from({ length: DEFAULT_GENERATED_HOLES }, (_, index) => index + 1));
+    expect(course.holes.map(hole => hole.strokeIndex).sort((a, b) => a! - b!)).toEqual(course.holes.map(hole => hole.id));
+  });
+
+  test('keeps courses made with other options on their own id', () => {
+    expect(generateCourse({ seed: 7 }).id).toBe('generated-7');
+    expect(generateCourse({ seed: 7, holes: 18 }).id).not.toBe('generated-7');
+  });
+
+  test('clamps the hole count', () => {
+    expect(generateCourse({ seed: 1, holes: 40 }).holes).toHaveLength(MAX_GENERATED_HOLES);
+    expect(generateCourse({ seed: 1, holes: 0 }).holes).toHaveLength(1);
+  });
+});
+
+describe('course generator helpers', () => {
+  test('seeded random numbers repeat for the same seed', () => {
+    const first = createSeededRandom('seed');
+    const second = createSeededRandom('seed');
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  test('par follows the effective length', () => {
+    expect([16, 29, 30, 49, 50, 66].map(getParForLength)).toEqual([3, 3, 4, 4, 5, 5]);
+  });
+
+  test('reads par mixes of three weights', () => {
+    expect(parseParMix('1, 2,1')).toEqual({ 3: 1, 4: 2, 5: 1 });
+    expect(parseParMix('1,2')).toBeUndefined();
+    expect(parseParMix('1,-1,1')).toBeUndefined();
+    expect(parseParMix('0,0,0')).toBeUndefined();
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * Course Generator - Seeded procedural courses
+ *
+ * Lays out a whole course from a seed so it doesn't have to be built by hand:
+ * - Tee, fairway corridor (straight or with a dogleg), rough borders and green for every hole
+ * - Bunkers and water, as many as the hazard density asks for
+ * - Par worked out from each hole's effective length
+ * - Holes side by side in lanes that never overlap, each playing back towards the next tee
+ *
+ * Produces plain course data for the course loader, so the same seed and
+ * options always build the same course. Pure functions with no World dependency.
+ */
+
+import type { Vector3Like } from 'hytopia';
+
+import type {
+  CourseBoundsData,
+  CourseData,
+  CourseDecorationData,
+  CourseFeatureData,
+  CourseHoleData,
+} from './CourseData.ts';
+
+export const DEFAULT_GENERATED_HOLES = 9;
+export const MAX_GENERATED_HOLES = 18;
+export const DEFAULT_HAZARD_DENSITY = 0.5;
+export const DEFAULT_HOLE_LENGTH = 0.5;
+
+// Relative weights of par 3s, 4s and 5s
+export type ParMix = Record<3 | 4 | 5, number>;
+
+export const DEFAULT_PAR_MIX: ParMix = { 3: 1, 4: 2, 5: 1 };
+
+export interface CourseGeneratorOptions {
+  seed: string | number;
+  holes?: number;
+  parMix?: ParMix;
+  hazardDensity?: number;   // 0 (no hazards) to 1 (bunkers and water everywhere)
+  length?: number;          // 0 (short end of each par) to 1 (long end)
+}
+
+// Route length (tee to pin, through the dogleg) each par is built from, in blocks
+const PAR_LENGTHS: Record<3 | 4 | 5, [number, number]> = {
+  3: [16, 26],
+  4: [32, 46],
+  5: [52, 66],
+};
+
+// Longest effective length for each par; anything longer is a par 5
+const PAR_3_MAX_LENGTH = 29;
+const PAR_4_MAX_LENGTH = 49;
+
+// A forced carry over water plays this much longer
+const WATER_CARRY_LENGTH = 3;
+
+const GROUND_Y = 1;
+const TEE_Y = 2;
+const TEE_HALF_SIZE = 2;
+const ROUGH_WIDTH = 2;
+const TREE_SETBACK = 4;        // From the edge of the rough
+const DOGLEG_CHANCE = 0.5;
+const WATER_CHANCE = 0.7;      // At full hazard density
+const MAX_BUNKERS = 3;
+const BUNKER_RADIUS = 2;
+
+// Same margins the loader uses for derived bounds
+const BOUNDS_MARGIN = 3;
+const BOUNDS_CEILING = 60;
+
+// Space between neighbouring holes, and lanes per column before starting the next column
+const LANE_GAP = 2;
+const LANES_PER_COLUMN = 6;
+
+const HOLE_NAMES: Record<3 | 4 | 5, string[]> = {
+  3: ['Short Iron', 'Pitch and Putt', 'The Postage Stamp', 'Little Wonder'],
+  4: ['Straightaway', 'The Corridor', 'Fairway Drive', 'Midway'],
+  5: ['Long Drive', 'The Marathon', 'Three Shot Hole', 'Home Stretch'],
+};
+
+interface GeneratedHole {
+  hole: CourseHoleData;
+  effectiveLength: number;
+  hazards: number;
+}
+
+/**
+ * Make a repeatable random number generator (0 up to 1) from a seed
+ */
+export function createSeededRandom(seed: string | number): () => number {
+  // FNV-1a hash of the seed feeding a mulberry32 generator
+  let state = 2166136261;
+  for (const character of String(seed)) {
+    state = Math.imul(state ^ character.charCodeAt(0), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Par for a hole from its effective length
+ */
+export function getParForLength(effectiveLength: number): number {
+  if (effectiveLength <= PAR_3_MAX_LENGTH) return 3;
+  if (effectiveLength <= PAR_4_MAX_LENGTH) return 4;
+  return 5;
+}
+
+/**
+ * Read a par mix written as weights for par 3, 4 and 5 ("1,2,1"); undefined if it isn't one
+ */
+export function parseParMix(text: string): ParMix | undefined {
+  const weights = text.split(',').map(weight => Number(weight.trim()));
+  if (weights.length !== 3 || weights.some(weight => !Number.isFinite(weight) || weight < 0)) return undefined;
+  if (weights.every(weight => weight === 0)) return undefined;
+
+  return { 3: weights[0]!, 4: weights[1]!, 5: weights[2]! };
+}
+
+/**
+ * Generate a course from a seed
+ */
+export function generateCourse(options: CourseGeneratorOptions): CourseData {
+  const holeCount = Math.round(clamp(options.holes ?? DEFAULT_GENERATED_HOLES, 1, MAX_GENERATED_HOLES));
+  const parMix = options.parMix ?? DEFAULT_PAR_MIX;
+  const hazardDensity = clamp(options.hazardDensity ?? DEFAULT_HAZARD_DENSITY, 0, 1);
+  const length = clamp(options.length ?? DEFAULT_HOLE_LENGTH, 0, 1);
+  const random = createSeededRandom(options.seed);
+
+  const generated = pickPars(holeCount, parMix, random).map((par, holeIndex) =>
+    generateHole(holeIndex + 1, par, hazardDensity, length, random),
+  );
+
+  layOutHoles(generated.map(({ hole }) => hole));
+  assignStrokeIndexes(generated);
+
+  const isDefault = holeCount === DEFAULT_GENERATED_HOLES
+    && parMix[3] === DEFAULT_PAR_MIX[3] && parMix[4] === DEFAULT_PAR_MIX[4] && parMix[5] === DEFAULT_PAR_MIX[5]
+    && hazardDensity === DEFAULT_HAZARD_DENSITY && length === DEFAULT_HOLE_LENGTH;
+
+  // Courses made with other options get their own id so their leaderboards stay apart
+  const optionsKey = [holeCount, parMix[3], parMix[4], parMix[5], hazardDensity, length].join('-');
+
+  return {
+    id: isDefault ? `generated-${options.seed}` : `generated-${options.seed}-${optionsKey}`,
+    name: `Generated Links #${options.seed}`,
+    holes: generated.map(({ hole }) => hole),
+  };
+}
+
+/**
+ * Share the holes out between pars by their weights, then shuffle them
+ */
+function pickPars(holeCount: number, parMix: ParMix, random: () => number): number[] {
+  const pars = [3, 4, 5] as const;
+  const totalWeight = pars.reduce((total, par) => total + Math.max(0, parMix[par]), 0) || 1;
+  const shares = pars.map(par => (Math.max(0, parMix[par]) / totalWeight) * holeCount);
+  const counts = shares.map(share => Math.floor(share));
+
+  // Holes left over after rounding down go to the largest remainders
+  const byRemainder = pars.map((_, index) => index).sort((a, b) => (shares[b]! - counts[b]!) - (shares[a]! - counts[a]!));
+  for (let index = 0; counts.reduce((total, count) => total + count, 0) < holeCount; index++) {
+    counts[byRemainder[index % pars.length]!]!++;
+  }
+
+  const list = pars.flatMap((par, index) => Array<number>(counts[index]!).fill(par));
+  for (let index = list.length - 1; index > 0; index--) {
+    const swap = Math.floor(random() * (index + 1));
+    [list[index], list[swap]] = [list[swap]!, list[index]!];
+  }
+  return list;
+}
+
+/**
+ * Build one hole playing from a tee at the origin towards +x. The layout moves it into place.
+ */
+function generateHole(
+  id: number,
+  targetPar: number,
+  hazardDensity: number,
+  length: number,
+  random: () => number,
+): GeneratedHole {
+  const par = targetPar as 3 | 4 | 5;
+  const [shortest, longest] = PAR_LENGTHS[par];
+  const routeLength = Math.round(shortest + (longest - shortest) * clamp(length + (random() - 0.5) * 0.4, 0, 1));
+  const halfWidth = par === 3 ? 2 + Math.floor(random() * 2) : 3 + Math.floor(random() * 2);
+  const greenRadius = par === 5 ? 4 : 3;
+
+  // Doglegs turn left or right part way down the hole; the second leg runs across the lane
+  const turn = par > 3 && random() < DOGLEG_CHANCE ? (random() < 0.5 ? -1 : 1) : 0;
+  const dogleg = turn ? Math.round(routeLength * (0.3 + random() * 0.15)) : 0;
+  const corner = routeLength - dogleg;
+  const pin = { x: corner, y: TEE_Y, z: turn * dogleg };
+
+  const fairways: CourseFeatureData[] = [
+    rectangle('fairway', TEE_HALF_SIZE + 1, -halfWidth, corner + (turn ? halfWidth : -greenRadius + 1), halfWidth),
+  ];
+  if (turn) {
+    fairways.push(rectangle('fairway', corner - halfWidth, turn * halfWidth, corner + halfWidth, turn * (dogleg - greenRadius + 1)));
+  }
+
+  // Rough borders every fairway, painted first so the fairways sit on top
+  const roughs = fairways.map(fairway => {
+    const { from, to } = fairway as Extract<CourseFeatureData, { shape: 'rectangle' }>;
+    return rectangle(
+      'rough',
+      Math.min(from.x, to.x) - ROUGH_WIDTH, Math.min(from.z, to.z) - ROUGH_WIDTH,
+      Math.max(from.x, to.x) + ROUGH_WIDTH, Math.max(from.z, to.z) + ROUGH_WIDTH,
+    );
+  });
+
+  const hazards: CourseFeatureData[] = [];
+  let effectiveLength = routeLength;
+  let waterCarry = false;
+  let pondSide = 0;
+
+  // Water either crosses the first leg (a forced carry) or sits alongside it
+  const firstLeg = turn ? corner : corner - greenRadius;
+  if (firstLeg >= 20 && random() < hazardDensity * WATER_CHANCE) {
+    const depth = 3 + Math.floor(random() * 3);
+    const start = Math.round(firstLeg * (0.35 + random() * 0.2));
+
+    if (random() < 0.5) {
+      waterCarry = true;
+      effectiveLength += WATER_CARRY_LENGTH;
+      hazards.push(rectangle('water', start, -halfWidth - ROUGH_WIDTH, start + depth - 1, halfWidth + ROUGH_WIDTH));
+    } else {
+      pondSide = turn ? -turn : (random() < 0.5 ? -1 : 1); // Never on the inside of a dogleg
+      const span = 6 + Math.floor(random() * 5);
+      hazards.push(rectangle('water', start, pondSide * (halfWidth - 1), start + span, pondSide * (halfWidth + ROUGH_WIDTH)));
+    }
+  }
+
+  // Bunkers guard the green or the landing area of the tee shot
+  for (let bunker = 0; bunker < MAX_BUNKERS; bunker++) {
+    if (random() >= hazardDensity) continue;
+
+    if (bunker % 2 === 0) {
+      // Beside or behind the green, never in front of it
+      const approach = turn ? { x: 0, z: turn } : { x: 1, z: 0 };
+      const sides = [approach, { x: -approach.z, z: approach.x }, { x: approach.z, z: -approach.x }];
+      const side = sides[Math.floor(random() * sides.length)]!;
+      const distance = greenRadius + BUNKER_RADIUS - 1;
+      hazards.push(circle('sand', pin.x + side.x * distance, pin.z + side.z * distance, BUNKER_RADIUS));
+    } else {
+      const side = random() < 0.5 ? -1 : 1;
+      const along = Math.round(TEE_HALF_SIZE + 4 + (firstLeg - TEE_HALF_SIZE - 4) * (0.5 + random() * 0.3));
+      hazards.push(circle('sand', along, side * halfWidth, BUNKER_RADIUS));
+    }
+  }
+
+  const features: CourseFeatureData[] = [
+    ...roughs,
+    ...fairways,
+    ...hazards,
+    rectangle('tee', -TEE_HALF_SIZE, -TEE_HALF_SIZE, TEE_HALF_SIZE, TEE_HALF_SIZE),
+    { shape: 'rectangle', surface: 'fairway', from: { x: -1, y: TEE_Y, z: -1 }, to: { x: 1, y: TEE_Y, z: 1 } }, // Raised tee
+    circle('green', pin.x, pin.z, greenRadius),
+  ];
+
+  // A few trees outside the rough of the first leg, clear of any pond
+  const decorations: CourseDecorationData[] = [];
+  const treeCount = 2 + Math.floor(random() * 3);
+  for (let tree = 0; tree < treeCount; tree++) {
+    const side = tree % 2 === 0 ? 1 : -1;
+    const setback = halfWidth + ROUGH_WIDTH + TREE_SETBACK + (side === pondSide ? ROUGH_WIDTH : 0);
+    const along = Math.round(TEE_HALF_SIZE + random() * (firstLeg - TEE_HALF_SIZE));
+    if (turn === side && along > corner - halfWidth - ROUGH_WIDTH - TREE_SETBACK) continue; // Would stand on the second leg
+    decorations.push({ type: 'tree', position: { x: along, y: GROUND_Y, z: side * setback } });
+  }
+
+  const hazardCount = hazards.length;
+  const names = HOLE_NAMES[par];
+  const name = waterCarry
+    ? 'Over the Water'
+    : turn ? `Dogleg ${turn > 0 ? 'Right' : 'Left'}` : names[Math.floor(random() * names.length)]!;
+
+  return {
+    hole: {
+      id,
+      name,
+      par: getParForLength(effectiveLength),
+      tee: { x: 0, y: TEE_Y, z: 0 },
+      pin,
+      features,
+      decorations,
+    },
+    effectiveLength,
+    hazards: hazardCount,
+  };
+}
+
+/**
+ * Move the holes into lanes side by side. Holes alternate direction so each
+ * green finishes near the next tee, and each lane is floored with rough out of
+ * bounds so there's somewhere to walk between holes.
+ */
+function layOutHoles(holes: CourseHoleData[]): void {
+  const columns: CourseHoleData[][] = [];
+  holes.forEach((hole, holeIndex) => {
+    const column = Math.floor(holeIndex / LANES_PER_COLUMN);
+    (columns[column] ??= []).push(hole);
+  });
+
+  // Lanes are placed along z, columns along x; the whole course is centred afterwards
+  let columnX = 0;
+  columns.forEach(column => {
+    column.forEach((hole, laneIndex) => {
+      // Turned around rather than mirrored, so a dogleg right still bends right
+      if (laneIndex % 2 === 1) transformHole(hole, point => ({ ...point, x: -point.x, z: -point.z }));
+    });
+
+    const extents = column.map(hole => getHoleExtent(hole));
+    const columnWidth = Math.max(...extents.map(extent => extent.max.x - extent.min.x));
+
+    // Holes coming back are lined up on the far side, so their tees sit by the last green
+    let laneZ = 0;
+    column.forEach((hole, laneIndex) => {
+      const extent = extents[laneIndex]!;
+      const width = extent.max.x - extent.min.x;
+      const laneX = laneIndex % 2 === 1 ? columnX + columnWidth - width : columnX;
+      const laneDepth = extent.max.z - extent.min.z;
+
+      transformHole(hole, point => ({ ...point, x: point.x - extent.min.x + laneX, z: point.z - extent.min.z + laneZ }));
+      hole.bounds = getHoleBounds(hole);
+      hole.features.unshift(rectangle('rough', columnX, laneZ, columnX + columnWidth + LANE_GAP, laneZ + laneDepth + LANE_GAP));
+
+      laneZ += laneDepth + LANE_GAP + 1;
+    });
+
+    columnX += columnWidth + LANE_GAP + 1;
+  });
+
+  const extents = holes.map(hole => getHoleExtent(hole));
+  const centreX = Math.round((Math.min(...extents.map(extent => extent.min.x)) + Math.max(...extents.map(extent => extent.max.x))) / 2);
+  const centreZ = Math.round((Math.min(...extents.map(extent => extent.min.z)) + Math.max(...extents.map(extent => extent.max.z))) / 2);
+  holes.forEach(hole => {
+    const shift = (point: Vector3Like) => ({ ...point, x: point.x - centreX, z: point.z - centreZ });
+    transformHole(hole, shift);
+    if (hole.bounds) hole.bounds = { min: shift(hole.bounds.min), max: shift(hole.bounds.max) };
+  });
+}
+
+/**
+ * Hardest holes get the lowest stroke index: the longest for their par, with the most hazards
+ */
+function assignStrokeIndexes(generated: GeneratedHole[]): void {
+  const difficulty = ({ hole, effectiveLength, hazards }: GeneratedHole) => {
+    const [shortest, longest] = PAR_LENGTHS[hole.par as 3 | 4 | 5];
+    return (effectiveLength - shortest) / (longest - shortest) + hazards * 0.15;
+  };
+
+  [...generated]
+    .sort((a, b) => difficulty(b) - difficulty(a) || a.hole.id - b.hole.id)
+    .forEach(({ hole }, rank) => {
+      hole.strokeIndex = rank + 1;
+    });
+}
+
+/**
+ * Apply a change of position to everything on a hole
+ */
+function transformHole(hole: CourseHoleData, move: (point: Vector3Like) => Vector3Like): void {
+  hole.tee = move(hole.tee);
+  hole.pin = move(hole.pin);
+  hole.features = hole.features.map(feature => feature.shape === 'rectangle'
+    ? { ...feature, from: move(feature.from), to: move(feature.to) }
+    : { ...feature, center: move(feature.center) },
+  );
+  hole.decorations = hole.decorations?.map(decoration => ({ ...decoration, position: move(decoration.position) }));
+}
+
+/**
+ * In-bounds volume around what is painted for a hole, worked out the way the loader does
+ */
+function getHoleBounds(hole: CourseHoleData): CourseBoundsData {
+  const { min, max } = getPaintedArea(hole);
+
+  return {
+    min: { x: min.x - BOUNDS_MARGIN, y: GROUND_Y - BOUNDS_MARGIN, z: min.z - BOUNDS_MARGIN },
+    max: { x: max.x + 1 + BOUNDS_MARGIN, y: TEE_Y + BOUNDS_CEILING, z: max.z + 1 + BOUNDS_MARGIN },
+  };
+}
+
+/**
+ * Everything a hole takes up: its bounds and its trees (with their leaves)
+ */
+function getHoleExtent(hole: CourseHoleData): CourseBoundsData {
+  const bounds = getHoleBounds(hole);
+  const trees = hole.decorations ?? [];
+
+  return {
+    min: {
+      x: Math.min(bounds.min.x, ...trees.map(tree => tree.position.x - 1)),
+      y: bounds.min.y,
+      z: Math.min(bounds.min.z, ...trees.map(tree => tree.position.z - 1)),
+    },
+    max: {
+      x: Math.max(bounds.max.x, ...trees.map(tree => tree.position.x + 1)),
+      y: bounds.max.y,
+      z: Math.max(bounds.max.z, ...trees.map(tree => tree.position.z + 1)),
+    },
+  };
+}
+
+function getPaintedArea(hole: CourseHoleData): CourseBoundsData {
+  const points: Vector3Like[] = [hole.tee, hole.pin];
+
+  hole.features.forEach(feature => {
+    if (feature.shape === 'rectangle') {
+      points.push(feature.from, feature.to);
+    } else {
+      points.push(
+        { x: feature.center.x - feature.radius, y: feature.center.y, z: feature.center.z - feature.radius },
+        { x: feature.center.x + feature.radius, y: feature.center.y, z: feature.center.z + feature.radius },
+      );
+    }
+  });
+
+  return {
+    min: { x: Math.min(...points.map(point => point.x)), y: GROUND_Y, z: Math.min(...points.map(point => point.z)) },
+    max: { x: Math.max(...points.map(point => point.x)), y: GROUND_Y, z: Math.max(...points.map(point => point.z)) },
+  };
+}
+
+function rectangle(surface: CourseFeatureData['surface'], x1: number, z1: number, x2: number, z2: number): CourseFeatureData {
+  return { shape: 'rectangle', surface, from: { x: x1, y: GROUND_Y, z: z1 }, to: { x: x2, y: GROUND_Y, z: z2 } };
+}
+
+function circle(surface: CourseFeatureData['surface'], x: number, z: number, radius: number): CourseFeatureData {
+  return { shape: 'circle', surface, center: { x, y: GROUND_Y, z }, radius };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
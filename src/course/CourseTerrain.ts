@@ -0,0 +1,52 @@
+/**
+ * Course Terrain - Block queries against the built course
+ * 
+ * Helpers for finding the ground (and its course surface)
+ * under a position in the world.
+ */
+
+import type {
+  World,
+  Vector3Like,
+} from 'hytopia';
+
+import { getSurfaceForBlockId, type CourseSurface } from './CourseData.ts';
+
+export interface GroundSample {
+  blockId: number;
+  surface: CourseSurface | undefined;  // Undefined for non-golf blocks
+  coordinate: Vector3Like;             // Block coordinate of the ground block
+  surfaceY: number;                    // Height of the top of the ground block
+}
+
+/**
+ * Find the first solid block at or below a position
+ */
+export function sampleGround(world: World, position: Vector3Like, maxDepth: number = 4): GroundSample | undefined {
+  const x = Math.floor(position.x);
+  const z = Math.floor(position.z);
+  const startY = Math.floor(position.y);
+
+  for (let y = startY; y >= startY - maxDepth; y--) {
+    const coordinate = { x, y, z };
+    const blockId = world.chunkLattice.getBlockId(coordinate);
+    if (blockId === 0) continue; // Air
+
+    return {
+      blockId,
+      surface: getSurfaceForBlockId(blockId),
+      coordinate,
+      surfaceY: y + 1,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a ball could be dropped at a position (solid ground, not water)
+ */
+export function isDryGround(world: World, position: Vector3Like, maxDepth: number = 4): boolean {
+  const ground = sampleGround(world, position, maxDepth);
+  return !!ground && ground.surface !== 'water';
+}
@@ -0,0 +1,207 @@
+/**
+ * Golf Course Loader - Following Hytopia SDK Guidelines
+ * 
+ * Turns course data into a playable course:
+ * - Paints terrain through the world's chunk lattice
+ * - Builds decorations
+ * - Produces the hole list used by the game manager
+ */
+
+import {
+  World,
+  Vector3Like,
+} from 'hytopia';
+
+import type { GolfHole } from '../managers/GolfGameManager.ts';
+import { STANDARD_SLOPE } from '../scoring/Handicap.ts';
+import {
+  SURFACE_BLOCK_IDS,
+  type CourseBoundsData,
+  type CourseData,
+  type CourseDecorationData,
+  type CourseFeatureData,
+  type CourseHoleData,
+  type GolfCourse,
+} from './CourseData.ts';
+
+const DEFAULT_HOLE_RADIUS = 0.5;
+
+// Derived out-of-bounds volumes extend this far past a hole's footprint
+const BOUNDS_MARGIN = 3;
+const BOUNDS_CEILING = 60;
+const KILL_DEPTH = 5;
+
+export default class GolfCourseLoader {
+  private _world: World;
+
+  constructor(world: World) {
+    this._world = world;
+  }
+
+  /**
+   * Build a course into the world and return its holes
+   */
+  public load(course: CourseData): GolfCourse {
+    console.log(`🏗️ Building golf course ${course.name}...`);
+
+    // Paint terrain first so decorations always sit on top of it
+    course.holes.forEach(hole => {
+      hole.features.forEach(feature => this._buildFeature(feature));
+    });
+
+    course.holes.forEach(hole => {
+      hole.decorations?.forEach(decoration => this._buildDecoration(decoration));
+    });
+
+    const holes = course.holes.map((hole, holeIndex) => this._createHole(hole, holeIndex));
+
+    console.log(`⛳ Golf course ${course.name} completed with ${holes.length} holes!`);
+
+    return {
+      id: course.id,
+      name: course.name,
+      rating: course.rating ?? holes.reduce((par, hole) => par + hole.par, 0),
+      slope: course.slope ?? STANDARD_SLOPE,
+      holes,
+    };
+  }
+
+  /**
+   * Convert hole data into the manager's hole description
+   */
+  private _createHole(hole: CourseHoleData, holeIndex: number): GolfHole {
+    const bounds = hole.bounds ?? this._getFootprintBounds(hole);
+
+    return {
+      id: hole.id,
+      name: hole.name,
+      par: hole.par,
+      strokeIndex: hole.strokeIndex ?? holeIndex + 1,
+      teePosition: { ...hole.tee },
+      holePosition: { ...hole.pin },
+      holeRadius: hole.holeRadius ?? DEFAULT_HOLE_RADIUS,
+      bounds: { min: { ...bounds.min }, max: { ...bounds.max } },
+      killHeight: hole.killHeight ?? bounds.min.y - KILL_DEPTH,
+      wind: hole.wind ? { ...hole.wind } : undefined,
+    };
+  }
+
+  /**
+   * Derive a hole's in-bounds volume from the shapes painted for it
+   */
+  private _getFootprintBounds(hole: CourseHoleData): CourseBoundsData {
+    const points: Vector3Like[] = [hole.tee, hole.pin];
+
+    hole.features.forEach(feature => {
+      if (feature.shape === 'rectangle') {
+        points.push(feature.from, feature.to);
+      } else {
+        points.push(
+          { x: feature.center.x - feature.radius, y: feature.center.y, z: feature.center.z - feature.radius },
+          { x: feature.center.x + feature.radius, y: feature.center.y, z: feature.center.z + feature.radius },
+        );
+      }
+    });
+
+    return {
+      min: {
+        x: Math.min(...points.map(point => point.x)) - BOUNDS_MARGIN,
+        y: Math.min(...points.map(point => point.y)) - BOUNDS_MARGIN,
+        z: Math.min(...points.map(point => point.z)) - BOUNDS_MARGIN,
+      },
+      max: {
+        x: Math.max(...points.map(point => point.x)) + 1 + BOUNDS_MARGIN, // Blocks extend one unit past their coordinate
+        y: Math.max(...points.map(point => point.y)) + BOUNDS_CEILING,
+        z: Math.max(...points.map(point => point.z)) + 1 + BOUNDS_MARGIN,
+      },
+    };
+  }
+
+  /**
+   * Paint a terrain shape with its surface block
+   */
+  private _buildFeature(feature: CourseFeatureData): void {
+    const blockId = SURFACE_BLOCK_IDS[feature.surface];
+    if (blockId === undefined) {
+      console.warn(`Unknown course surface "${feature.surface}" - skipping feature`);
+      return;
+    }
+
+    switch (feature.shape) {
+      case 'rectangle':
+        this._buildRectangle(feature.from, feature.to, blockId);
+        break;
+      case 'circle':
+        this._buildCircle(feature.center, feature.radius, blockId);
+        break;
+      default:
+        console.warn(`Unknown course shape "${(feature as CourseFeatureData).shape}" - skipping feature`);
+    }
+  }
+
+  /**
+   * Build a decoration
+   */
+  private _buildDecoration(decoration: CourseDecorationData): void {
+    switch (decoration.type) {
+      case 'tree':
+        this._buildSimpleTree(decoration.position);
+        break;
+      default:
+        console.warn(`Unknown course decoration "${(decoration as CourseDecorationData).type}" - skipping`);
+    }
+  }
+
+  /**
+   * Build a simple tree using blocks
+   */
+  private _buildSimpleTree(position: Vector3Like): void {
+    // Trunk using bricks (safe block ID that exists)
+    for (let dy = 1; dy <= 3; dy++) {
+      this._world.chunkLattice.setBlock({ x: position.x, y: position.y + dy, z: position.z }, 1);
+    }
+
+    // Leaves using fairway grass (green color for leaves)
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        if (dx === 0 && dz === 0) continue; // Skip center (trunk)
+        this._world.chunkLattice.setBlock({ x: position.x + dx, y: position.y + 3, z: position.z + dz }, SURFACE_BLOCK_IDS.fairway);
+        this._world.chunkLattice.setBlock({ x: position.x + dx, y: position.y + 4, z: position.z + dz }, SURFACE_BLOCK_IDS.fairway);
+      }
+    }
+  }
+
+  /**
+   * Build a rectangle of blocks
+   */
+  private _buildRectangle(corner1: Vector3Like, corner2: Vector3Like, blockId: number): void {
+    const minX = Math.min(corner1.x, corner2.x);
+    const maxX = Math.max(corner1.x, corner2.x);
+    const minY = Math.min(corner1.y, corner2.y);
+    const maxY = Math.max(corner1.y, corner2.y);
+    const minZ = Math.min(corner1.z, corner2.z);
+    const maxZ = Math.max(corner1.z, corner2.z);
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        for (let z = minZ; z <= maxZ; z++) {
+          this._world.chunkLattice.setBlock({ x, y, z }, blockId);
+        }
+      }
+    }
+  }
+
+  /**
+   * Build a flat circle of blocks
+   */
+  private _buildCircle(center: Vector3Like, radius: number, blockId: number): void {
+    for (let x = center.x - radius; x <= center.x + radius; x++) {
+      for (let z = center.z - radius; z <= center.z + radius; z++) {
+        const distance = Math.sqrt((x - center.x) ** 2 + (z - center.z) ** 2);
+        if (distance <= radius) {
+          this._world.chunkLattice.setBlock({ x, y: center.y, z }, blockId);
+        }
+      }
+    }
+  }
+}
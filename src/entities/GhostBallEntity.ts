@@ -0,0 +1,94 @@
+/**
+ * Ghost Ball Entity - Following Hytopia SDK Guidelines
+ *
+ * Replays a recorded shot along its ball path:
+ * - Kinematic, moved to the recorded positions every tick without physics
+ * - No colliders, so it never touches real balls, players or the cup
+ * - Despawns itself a moment after the replay ends
+ */
+
+import {
+  Entity,
+  EntityOptions,
+  EntityEvent,
+  RigidBodyType,
+  World,
+} from 'hytopia';
+
+import type { ShotRecording, ShotSample } from '../replay/ShotRecorder.ts';
+
+// How long the ghost stays where the shot finished before disappearing
+const GHOST_HOLD_MS = 1500;
+
+export default class GhostBallEntity extends Entity {
+  private _shot: ShotRecording;
+  private _elapsedMs: number = 0;
+  private _onFinished: (() => void) | undefined;
+
+  constructor(shot: ShotRecording, options: Partial<EntityOptions> = {}) {
+    super({
+      name: 'Ghost Ball',
+      blockTextureUri: 'blocks/glass.png',
+      blockHalfExtents: { x: 0.05, y: 0.05, z: 0.05 },
+
+      rigidBodyOptions: {
+        type: RigidBodyType.KINEMATIC_POSITION,
+        colliders: [], // Purely visual
+      },
+
+      // Pass through other options
+      ...options,
+    });
+
+    this._shot = shot;
+    this.on(EntityEvent.TICK, ({ tickDeltaMs }) => this._advance(tickDeltaMs));
+  }
+
+  /**
+   * Spawn at the start of the shot and play it back, calling back once it's gone
+   */
+  public play(world: World, onFinished?: () => void): void {
+    const start = this._shot.samples[0] ?? this._shot.from;
+
+    this._elapsedMs = 0;
+    this._onFinished = onFinished;
+    this.spawn(world, { x: start.x, y: start.y, z: start.z });
+  }
+
+  /**
+   * Move along the recorded path, between the two samples either side of now
+   */
+  private _advance(tickDeltaMs: number): void {
+    if (!this.isSpawned) return;
+
+    this._elapsedMs += tickDeltaMs;
+    const { samples } = this._shot;
+    const last = samples[samples.length - 1];
+
+    if (!last || this._elapsedMs >= last.t + GHOST_HOLD_MS) {
+      this.despawn();
+      this._onFinished?.();
+      return;
+    }
+
+    const nextIndex = samples.findIndex(sample => sample.t > this._elapsedMs);
+    if (nextIndex <= 0) {
+      this.setPosition(this._toVector(last));
+      return;
+    }
+
+    const from = samples[nextIndex - 1]!;
+    const to = samples[nextIndex]!;
+    const amount = (this._elapsedMs - from.t) / Math.max(1, to.t - from.t);
+
+    this.setPosition({
+      x: from.x + (to.x - from.x) * amount,
+      y: from.y + (to.y - from.y) * amount,
+      z: from.z + (to.z - from.z) * amount,
+    });
+  }
+
+  private _toVector(sample: ShotSample) {
+    return { x: sample.x, y: sample.y, z: sample.z };
+  }
+}
@@ -5,6 +5,9 @@
  * - Uses ColliderShape.BALL for perfect golf ball physics
  * - Proper bouncing and rolling mechanics
  * - Collision detection for holes and hazards
+ * - Lie-aware rolling, bounce and damping from the block under the ball
+ * - Backspin, topspin and sidespin for lift, curve, check and release
+ * - Wind pushing the ball while it is in the air
  * - Visual representation using default assets
  */
 
@@ -18,8 +21,37 @@ import {
   EntityEvent,
   World,
   Audio,
+  CollisionGroup,
 } from 'hytopia';
 
+import { sampleGround } from '../course/CourseTerrain.ts';
+import {
+  SPIN_DECAY,
+  getSpinAcceleration,
+  type BallSpin,
+} from '../physics/BallFlight.ts';
+import {
+  AIRBORNE_ANGULAR_DAMPING,
+  AIRBORNE_LINEAR_DAMPING,
+  GROUND_CONTACT_TOLERANCE,
+  LANDING_SPIN_RETAINED,
+  MAX_SPIN_BACK,
+  ROLL_STOP_SPEED,
+  SPIN_CHECK_FACTOR,
+  SPIN_RELEASE_FACTOR,
+  SURFACE_PHYSICS,
+  getLieForSurface,
+  type BallLie,
+} from '../physics/SurfacePhysics.ts';
+import {
+  getWindAcceleration,
+  getWindVelocity,
+  type WindSettings,
+} from '../physics/Wind.ts';
+
+// Golf balls share a collision group so they can be told to ignore each other
+export const GOLF_BALL_COLLISION_GROUP = CollisionGroup.GROUP_1;
+
 export interface GolfBallEntityOptions extends Partial<EntityOptions> {
   // Golf-specific ball properties
   ballRadius?: number;
@@ -37,6 +69,14 @@ export default class GolfBallEntity extends Entity {
   private _bounceAudio: Audio | undefined;
   private _rollAudio: Audio | undefined;
   private _isRolling: boolean = false;
+  private _isInHole: boolean = false;
+  private _isInWater: boolean = false;
+  private _isGrounded: boolean = false;
+  private _lie: BallLie = 'tee';
+  private _isInFlight: boolean = false;
+  private _isMoving: boolean = false;       // Has been going faster than the roll stop speed since it last stopped
+  private _spin: BallSpin = { backspin: 0, sidespin: 0 };
+  private _wind: WindSettings | undefined;
 
   constructor(options: GolfBallEntityOptions = {}) {
     // Golf ball standard specifications in meters
@@ -60,8 +100,8 @@ export default class GolfBallEntity extends Entity {
       rigidBodyOptions: {
         type: RigidBodyType.DYNAMIC,  // Dynamic for realistic physics
         gravityScale,
-        linearDamping: 0.1,   // Slight air resistance
-        angularDamping: 0.05, // Minimal spin resistance
+        linearDamping: AIRBORNE_LINEAR_DAMPING,   // Slight air resistance
+        angularDamping: AIRBORNE_ANGULAR_DAMPING, // Minimal spin resistance
         
         // Golf ball collider - CRITICAL for proper golf physics
         colliders: [{
@@ -91,10 +131,10 @@ export default class GolfBallEntity extends Entity {
   }
 
   /**
-   * Hit the golf ball with specified force and direction
+   * Hit the golf ball with specified force, direction and spin
    * Following SDK guidelines for applying impulse forces
    */
-  public hit(direction: Vector3Like, force: number): void {
+  public hit(direction: Vector3Like, force: number, spin: BallSpin = { backspin: 0, sidespin: 0 }): void {
     if (!this.isSpawned) {
       console.warn('Cannot hit golf ball - entity not spawned');
       return;
@@ -107,6 +147,12 @@ export default class GolfBallEntity extends Entity {
       z: direction.z * force * this.ballMass,
     };
 
+    // Ball leaves the ground with air damping
+    this._isInWater = false;
+    this._isInFlight = direction.y > 0;
+    this._spin = { ...spin };
+    this._setGrounded(false);
+
     // Apply impulse using SDK method
     this.applyImpulse(impulse);
 
@@ -116,6 +162,75 @@ export default class GolfBallEntity extends Entity {
     console.log(`Golf ball hit with force ${force} in direction:`, direction);
   }
 
+  /**
+   * Drop the ball into a cup (called by the hole's sensor)
+   */
+  public dropIntoHole(hole: Entity): void {
+    if (!this.isSpawned || this._isInHole) return;
+
+    this._isInHole = true;
+    this.stopBall();
+
+    console.log('Golf ball entered hole!');
+    // Emit event for golf game manager to handle
+    this.emit('ball-in-hole', { ball: this, hole });
+  }
+
+  /**
+   * Get the lie the ball is sitting on (or last touched while in the air)
+   */
+  public getLie(): BallLie {
+    return this._lie;
+  }
+
+  /**
+   * Get the ball's current spin
+   */
+  public getSpin(): BallSpin {
+    return { ...this._spin };
+  }
+
+  /**
+   * Let the ball pass through players as well, so everyone can play the hole
+   * at once. Golf balls never hit each other either way, as other groups
+   * share the course. The ball must be spawned.
+   */
+  public setPassThrough(enabled: boolean): void {
+    const collidesWith = [CollisionGroup.BLOCK, CollisionGroup.ENTITY_SENSOR, CollisionGroup.ENVIRONMENT_ENTITY];
+    this.setCollisionGroupsForSolidColliders({
+      belongsTo: [GOLF_BALL_COLLISION_GROUP],
+      collidesWith: enabled ? collidesWith : [...collidesWith, CollisionGroup.ENTITY],
+    });
+  }
+
+  /**
+   * Set the wind that acts on the ball in the air
+   */
+  public setWind(wind: WindSettings | undefined): void {
+    this._wind = wind;
+  }
+
+  /**
+   * Get the wind that acts on the ball in the air
+   */
+  public getWind(): WindSettings | undefined {
+    return this._wind;
+  }
+
+  /**
+   * Check if ball is on the ground
+   */
+  public isGrounded(): boolean {
+    return this._isGrounded;
+  }
+
+  /**
+   * Check if ball has dropped into a hole
+   */
+  public isInHole(): boolean {
+    return this._isInHole;
+  }
+
   /**
    * Stop the ball (useful for rules like out of bounds)
    */
@@ -126,6 +241,9 @@ export default class GolfBallEntity extends Entity {
     this.setLinearVelocity({ x: 0, y: 0, z: 0 });
     this.setAngularVelocity({ x: 0, y: 0, z: 0 });
     
+    this._spin = { backspin: 0, sidespin: 0 };
+    this._isInFlight = false;
+    this._isMoving = false;
     this._isRolling = false;
     this._stopRollSound();
   }
@@ -180,7 +298,11 @@ export default class GolfBallEntity extends Entity {
    */
   private _setupBallEvents(): void {
     // Monitor ball movement for rolling sound
-    this.on(EntityEvent.TICK, () => {
+    this.on(EntityEvent.TICK, ({ tickDeltaMs }) => {
+      this._updateLie();
+      this._applySpin(tickDeltaMs / 1000);
+      this._applyWind(tickDeltaMs / 1000);
+
       const wasRolling = this._isRolling;
       this._isRolling = this.isMoving();
 
@@ -204,41 +326,142 @@ export default class GolfBallEntity extends Entity {
       this._playBounceSound();
     }
 
-    // Check for special collision types
+    // Check for special collision types (holes are detected by the cup's sensor,
+    // other surfaces by sampling the block under the ball each tick)
     if (other && typeof other === 'object') {
-      // Handle hole detection (implement in golf game manager)
-      if (other.name === 'GolfHole') {
-        console.log('Golf ball entered hole!');
-        // Emit event for golf game manager to handle
-        this.emit('ball-in-hole', { ball: this, hole: other });
-      }
-      
       // Handle water hazard
       if (other.isLiquid) {
-        console.log('Golf ball in water hazard!');
-        this.emit('ball-in-water', { ball: this, position: this.position });
-      }
-      
-      // Handle sand trap (sand blocks)
-      if (other.name && other.name.includes('sand')) {
-        console.log('Golf ball in sand trap!');
-        // Increase friction temporarily
-        this._applyTemporaryFriction(0.8, 2000); // Higher friction for 2 seconds
+        this._enterWater();
       }
     }
   }
 
   /**
-   * Apply temporary friction change (for sand traps, rough, etc.)
+   * Sample the block under the ball and apply that surface's physics
    */
-  private _applyTemporaryFriction(frictionMultiplier: number, durationMs: number): void {
-    // Note: In a full implementation, you'd modify the collider's friction
-    // This is a simplified version showing the pattern
-    console.log(`Applying temporary friction: ${frictionMultiplier}x for ${durationMs}ms`);
-    
-    setTimeout(() => {
-      console.log('Friction returned to normal');
-    }, durationMs);
+  private _updateLie(): void {
+    if (!this.world || this._isInHole) return;
+
+    const ground = sampleGround(this.world, this.position, 1);
+    const grounded = !!ground && this.position.y - this.ballRadius - ground.surfaceY <= GROUND_CONTACT_TOLERANCE;
+
+    if (!ground || !grounded) {
+      this._setGrounded(false);
+      return;
+    }
+
+    const lie = getLieForSurface(ground.surface);
+    if (lie === 'water') {
+      this._enterWater();
+    }
+
+    if (lie !== this._lie || !this._isGrounded) {
+      this._lie = lie;
+      this._setGrounded(true);
+    }
+
+    // First touchdown after a shot in the air
+    if (this._isInFlight && this.getBallVelocity().y <= 0) {
+      this._handleLanding();
+    }
+
+    // Bring slow rolling balls to rest instead of creeping forever. Only a ball that has been
+    // moving is stopped, so resting balls and soft putts just struck are left alone.
+    const velocity = this.getBallVelocity();
+    if (Math.sqrt(velocity.x ** 2 + velocity.y ** 2 + velocity.z ** 2) >= ROLL_STOP_SPEED) {
+      this._isMoving = true;
+    } else if (this._isMoving) {
+      this.stopBall();
+    }
+  }
+
+  /**
+   * Curve and lift the ball from its spin while it is in the air
+   */
+  private _applySpin(deltaSeconds: number): void {
+    if (this._isGrounded || this._isInHole || (this._spin.backspin === 0 && this._spin.sidespin === 0)) return;
+
+    const acceleration = getSpinAcceleration(this.getBallVelocity(), this._spin);
+    this.applyImpulse({
+      x: acceleration.x * this.ballMass * deltaSeconds,
+      y: acceleration.y * this.ballMass * deltaSeconds,
+      z: acceleration.z * this.ballMass * deltaSeconds,
+    });
+
+    // Spin wears off in the air the same way the flight simulator assumes
+    this._spin.backspin *= 1 - SPIN_DECAY * deltaSeconds;
+    this._spin.sidespin *= 1 - SPIN_DECAY * deltaSeconds;
+  }
+
+  /**
+   * Push the ball with the wind (including gusts) while it is in the air
+   */
+  private _applyWind(deltaSeconds: number): void {
+    if (!this._wind || this._isGrounded || this._isInHole) return;
+
+    const acceleration = getWindAcceleration(getWindVelocity(this._wind, Date.now() / 1000), this.getBallVelocity());
+    this.applyImpulse({
+      x: acceleration.x * this.ballMass * deltaSeconds,
+      y: 0,
+      z: acceleration.z * this.ballMass * deltaSeconds,
+    });
+  }
+
+  /**
+   * Check up (backspin) or release (topspin) the ball when it lands
+   */
+  private _handleLanding(): void {
+    this._isInFlight = false;
+
+    const { spinGrip } = SURFACE_PHYSICS[this._lie];
+    const velocity = this.getBallVelocity();
+    const spinEffect = this._spin.backspin >= 0
+      ? -this._spin.backspin * SPIN_CHECK_FACTOR * spinGrip
+      : -this._spin.backspin * SPIN_RELEASE_FACTOR * spinGrip;
+    const horizontalFactor = Math.max(-MAX_SPIN_BACK, 1 + spinEffect);
+
+    this.setLinearVelocity({
+      x: velocity.x * horizontalFactor,
+      y: velocity.y,
+      z: velocity.z * horizontalFactor,
+    });
+
+    // Most of the spin is used up by the first bounce
+    this._spin = {
+      backspin: this._spin.backspin * LANDING_SPIN_RETAINED,
+      sidespin: 0,
+    };
+
+    this.emit('ball-landed', { ball: this, position: { ...this.position }, lie: this._lie });
+  }
+
+  /**
+   * Switch between the current lie's ground physics and air physics
+   */
+  private _setGrounded(grounded: boolean): void {
+    if (grounded === this._isGrounded && !grounded) return;
+    this._isGrounded = grounded;
+
+    const profile = SURFACE_PHYSICS[this._lie];
+    this.setLinearDamping(grounded ? profile.rollingResistance : AIRBORNE_LINEAR_DAMPING);
+    this.setAngularDamping(grounded ? profile.angularDamping : AIRBORNE_ANGULAR_DAMPING);
+
+    this.colliders.forEach(collider => {
+      if (collider.isSensor) return;
+      collider.setRestitution(grounded ? profile.restitution : this.ballRestitution);
+      collider.setFriction(grounded ? profile.friction : this.ballFriction);
+    });
+  }
+
+  /**
+   * Report the ball going into water (once per shot)
+   */
+  private _enterWater(): void {
+    if (this._isInWater) return;
+    this._isInWater = true;
+
+    console.log('Golf ball in water hazard!');
+    this.emit('ball-in-water', { ball: this, position: { ...this.position } });
   }
 
   /**
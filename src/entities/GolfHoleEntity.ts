@@ -0,0 +1,171 @@
+/**
+ * Golf Hole Entity - Following Hytopia SDK Guidelines
+ * 
+ * The cup and flagstick at the end of each hole:
+ * - Sensor collider sized from the hole radius detects the ball
+ * - Only captures balls rolling slowly enough to drop
+ * - Visible flagstick that can be pulled while players are on the green
+ */
+
+import {
+  Entity,
+  EntityOptions,
+  RigidBodyType,
+  ColliderShape,
+  EntityEvent,
+  World,
+  Vector3Like,
+  QuaternionLike,
+} from 'hytopia';
+
+import GolfBallEntity from './GolfBallEntity.ts';
+
+export interface GolfHoleEntityOptions extends Partial<EntityOptions> {
+  holeRadius?: number;      // Cup radius (sensor size)
+  flagHeight?: number;      // Height of the flagstick
+  captureSpeed?: number;    // Balls faster than this roll over the cup
+}
+
+export default class GolfHoleEntity extends Entity {
+  public readonly holeRadius: number;
+  public readonly flagHeight: number;
+  public readonly captureSpeed: number;
+  private _flagParts: Entity[] = [];
+  private _ballsOverCup: Set<GolfBallEntity> = new Set();
+
+  constructor(options: GolfHoleEntityOptions = {}) {
+    const holeRadius = options.holeRadius ?? 0.5;
+    const flagHeight = options.flagHeight ?? 3;
+
+    super({
+      name: 'GolfHole',
+
+      // Dark disc marking the cup
+      blockTextureUri: 'blocks/shadowrock.png',
+      blockHalfExtents: {
+        x: holeRadius,
+        y: 0.02,
+        z: holeRadius,
+      },
+
+      rigidBodyOptions: {
+        type: RigidBodyType.FIXED,  // The cup never moves
+
+        // Sensor so balls pass through and we only get collision callbacks
+        colliders: [{
+          shape: ColliderShape.CYLINDER,
+          radius: holeRadius,
+          halfHeight: 0.5,
+          isSensor: true,
+          onCollision: (other, started) => this._handleCollision(other, started),
+        }]
+      },
+
+      // Pass through other options
+      ...options,
+    });
+
+    this.holeRadius = holeRadius;
+    this.flagHeight = flagHeight;
+    this.captureSpeed = options.captureSpeed ?? 4;
+
+    // Balls can slow down while over the cup, so keep checking them
+    this.on(EntityEvent.TICK, () => this._checkBallsOverCup());
+  }
+
+  /**
+   * Whether the flagstick is currently in the hole
+   */
+  public isFlagRaised(): boolean {
+    return this._flagParts.length > 0;
+  }
+
+  /**
+   * Put the flagstick in the hole
+   */
+  public raiseFlag(): void {
+    if (!this.world || this.isFlagRaised()) return;
+
+    // Pole
+    const pole = new Entity({
+      parent: this,
+      blockTextureUri: 'blocks/snow.png',
+      blockHalfExtents: { x: 0.04, y: this.flagHeight / 2, z: 0.04 },
+      relativePosition: { x: 0, y: this.flagHeight / 2, z: 0 },
+    });
+
+    // Flag
+    const flag = new Entity({
+      parent: this,
+      blockTextureUri: 'blocks/bricks.png',
+      blockHalfExtents: { x: 0.4, y: 0.25, z: 0.02 },
+      relativePosition: { x: 0.44, y: this.flagHeight - 0.25, z: 0 },
+    });
+
+    pole.spawn(this.world, this.position);
+    flag.spawn(this.world, this.position);
+    this._flagParts = [pole, flag];
+  }
+
+  /**
+   * Pull the flagstick out (when a ball is on the green)
+   */
+  public removeFlag(): void {
+    this._flagParts.forEach(part => {
+      if (part.isSpawned) {
+        part.despawn();
+      }
+    });
+    this._flagParts = [];
+  }
+
+  /**
+   * Override spawn to put the flagstick in
+   */
+  public override spawn(world: World, position: Vector3Like, rotation?: QuaternionLike): void {
+    super.spawn(world, position, rotation);
+    this.raiseFlag();
+  }
+
+  /**
+   * Override despawn to cleanup the flagstick
+   */
+  public override despawn(): void {
+    this.removeFlag();
+    this._ballsOverCup.clear();
+    super.despawn();
+  }
+
+  /**
+   * Track balls entering and leaving the cup sensor
+   */
+  private _handleCollision(other: any, started: boolean): void {
+    if (!(other instanceof GolfBallEntity)) return;
+
+    if (started) {
+      this._ballsOverCup.add(other);
+      this._checkBallsOverCup();
+    } else {
+      this._ballsOverCup.delete(other);
+    }
+  }
+
+  /**
+   * Drop any ball over the cup that is slow enough to fall in
+   */
+  private _checkBallsOverCup(): void {
+    this._ballsOverCup.forEach(ball => {
+      if (!ball.isSpawned) {
+        this._ballsOverCup.delete(ball);
+        return;
+      }
+
+      const velocity = ball.getBallVelocity();
+      const speed = Math.sqrt(velocity.x ** 2 + velocity.z ** 2);
+      if (speed <= this.captureSpeed) {
+        this._ballsOverCup.delete(ball);
+        ball.dropIntoHole(this);
+      }
+    });
+  }
+}
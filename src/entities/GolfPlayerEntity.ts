@@ -2,10 +2,14 @@
  * Golf Player Entity - Following Hytopia SDK Guidelines
  * 
  * Extends DefaultPlayerEntity to add golf-specific functionality:
- * - Golf swing mechanics with power meter
+ * - Golf swing mechanics with power meter (hold-and-release or classic three-click)
+ * - Club selection with per-club loft, carry and dispersion
+ * - Predicted landing marker while charging
+ * - Shot shaping (draw/fade) and spin from club and swing quality
  * - Aiming system using camera controls
  * - Golf club visual representation
  * - Turn-based gameplay integration
+ * - Auto-putts and activity events for the shot clock
  */
 
 import {
@@ -19,20 +23,47 @@ import {
   BaseEntityControllerEvent,
   Audio,
   Entity,
+  type PlayerInput,
 } from 'hytopia';
 
 import GolfBallEntity from './GolfBallEntity.ts';
+import LandingMarkerEntity from './LandingMarkerEntity.ts';
+import GolfClubBag, { getLaunchDirection, getLaunchSpeed } from '../equipment/GolfClubBag.ts';
+import { sampleGround } from '../course/CourseTerrain.ts';
+import SwingMeter, { type SwingMode, type SwingResult } from '../mechanics/SwingMeter.ts';
+import { simulateBallFlight, type BallSpin } from '../physics/BallFlight.ts';
+import { SURFACE_PHYSICS, type BallLie } from '../physics/SurfacePhysics.ts';
+
+// Re-run the landing prediction every few ticks while charging
+const LANDING_PREVIEW_INTERVAL_TICKS = 6;
+
+export type ShotShape = 'straight' | 'draw' | 'fade';
+
+// Draws start right and curve left, fades start left and curve right
+const SHOT_SHAPE_SIDESPIN = 12;
+const SHOT_SHAPE_START_LINE = 2;
+
+// Any of these keys counts as the player being at the keyboard (for the shot clock's AFK check)
+const ACTIVITY_KEYS = ['w', 'a', 's', 'd', 'sp', 'q', 'e', 'r', 'f', 'c', 'ml', 'mr'] as const;
+const ACTIVITY_EVENT_INTERVAL_MS = 1000;
+
+// Hooks and slices: a third of the miss is the start line, the rest is curve
+const SWING_MISS_START_LINE_SHARE = 1 / 3;
+const SIDESPIN_PER_MISS_DEGREE = 5;
 
 export interface GolfPlayerEntityOptions extends PlayerEntityOptions {
   // Golf-specific options
   maxPower?: number;        // Maximum shot power (0-100)
   aimSensitivity?: number;  // Camera aim sensitivity
   hasClub?: boolean;        // Whether player has golf club visible
+  clubBag?: GolfClubBag;    // Clubs to choose from (defaults to a full bag)
+  swingMode?: SwingMode;    // Hold-and-release (default) or classic three-click
 }
 
 export default class GolfPlayerEntity extends DefaultPlayerEntity {
   public readonly maxPower: number;
   public readonly aimSensitivity: number;
+  public readonly clubBag: GolfClubBag;
   
   // Golf game state
   private _currentPower: number = 0;
@@ -41,8 +72,15 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
   private _golfClub: Entity | undefined;
   private _currentBall: GolfBallEntity | undefined;
   private _shotCount: number = 0;
+  private _penaltyStrokes: number = 0;
   private _isPlayerTurn: boolean = false;
   private _hasClub: boolean;
+  private _landingMarker: LandingMarkerEntity | undefined;
+  private _swingMode: SwingMode;
+  private _shotShape: ShotShape = 'straight';
+  private _swingMeter: SwingMeter = new SwingMeter();
+  private _chargeTicks: number = 0;
+  private _lastActivityAt: number = 0;
 
   // Audio
   private _swingAudio: Audio | undefined;
@@ -54,6 +92,8 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
     this.maxPower = options.maxPower ?? 100;
     this.aimSensitivity = options.aimSensitivity ?? 1.0;
     this._hasClub = options.hasClub !== false; // Default to true
+    this.clubBag = options.clubBag ?? new GolfClubBag();
+    this._swingMode = options.swingMode ?? 'hold';
 
     // Set up golf-specific controls
     this._setupGolfControls();
@@ -70,18 +110,34 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
     console.log(`Player ${this.player.username} assigned to ball`);
   }
 
+  /**
+   * Start a new hole with a fresh shot count
+   */
+  public startHole(): void {
+    this._shotCount = 0;
+    this._penaltyStrokes = 0;
+  }
+
   /**
    * Start player's turn
    */
   public startTurn(): void {
     this._isPlayerTurn = true;
-    this._shotCount = 0;
+
+    // Take the putter out on the green, and put it away off it
+    if (this._currentBall?.getLie() === 'green') {
+      this.clubBag.selectClub('putter');
+    } else if (this.clubBag.getCurrentClub().category === 'putter') {
+      this.clubBag.selectClub('driver');
+    }
+    this._sendClubUpdate();
     
     // Send turn notification to player
     this.player.ui.sendData({
       type: 'golf-turn-start',
       message: 'Your turn! Use Mouse to aim, hold Space to charge power',
-      shotCount: this._shotCount,
+      shotCount: this.getScore(),
+      lie: this._currentBall?.getLie(),
     });
 
     // Enable aiming mode
@@ -98,21 +154,116 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
     this._isAiming = false;
     this._isCharging = false;
     this._currentPower = 0;
+    this._swingMeter.cancel();
+    this._removeLandingMarker();
 
     // Send turn end notification
     this.player.ui.sendData({
       type: 'golf-turn-end',
-      shotCount: this._shotCount,
+      shotCount: this.getScore(),
     });
 
     console.log(`Ended turn for player ${this.player.username} - Total shots: ${this._shotCount}`);
   }
 
   /**
-   * Get player's current score (shot count)
+   * Get player's current score (shots plus penalty strokes)
    */
   public getScore(): number {
-    return this._shotCount;
+    return this._shotCount + this._penaltyStrokes;
+  }
+
+  /**
+   * Get penalty strokes taken on the current hole
+   */
+  public getPenaltyStrokes(): number {
+    return this._penaltyStrokes;
+  }
+
+  /**
+   * Add penalty strokes to the current hole (water, out of bounds, etc.)
+   */
+  public addPenaltyStrokes(strokes: number, reason: string): void {
+    this._penaltyStrokes += strokes;
+
+    this.player.ui.sendData({
+      type: 'golf-stroke-update',
+      shotCount: this.getScore(),
+      penaltyStrokes: this._penaltyStrokes,
+      reason,
+    });
+
+    console.log(`Player ${this.player.username} penalized ${strokes} stroke(s) for ${reason}`);
+  }
+
+  /**
+   * Count the stroke for a putt the other side has conceded
+   */
+  public addConcededStroke(): void {
+    this._shotCount++;
+
+    this.player.ui.sendData({
+      type: 'golf-stroke-update',
+      shotCount: this.getScore(),
+      penaltyStrokes: this._penaltyStrokes,
+      reason: 'conceded',
+    });
+  }
+
+  /**
+   * Get the swing mechanic this player uses
+   */
+  public getSwingMode(): SwingMode {
+    return this._swingMode;
+  }
+
+  /**
+   * Switch between hold-and-release and the classic three-click swing
+   */
+  public setSwingMode(mode: SwingMode): void {
+    if (this._isCharging) {
+      this._cancelCharging();
+    }
+
+    this._swingMode = mode;
+
+    this.player.ui.sendData({
+      type: 'golf-message',
+      message: mode === 'three-click'
+        ? 'Three-click swing: SPACE to start, SPACE to set power, SPACE in the sweet spot'
+        : 'Hold SPACE to charge power, release to swing',
+    });
+    this._sendPowerMeter(false);
+  }
+
+  /**
+   * Putt straight at a target with just enough pace to reach it, for when the shot clock runs out
+   */
+  public autoPutt(target: Vector3Like): boolean {
+    if (!this._currentBall?.isSpawned || !this.world) return false;
+
+    this._cancelCharging();
+    this.clubBag.selectClub('putter');
+    this._sendClubUpdate();
+
+    const club = this.clubBag.getCurrentClub();
+    const ballPosition = this._currentBall.position;
+    const toTargetX = target.x - ballPosition.x;
+    const toTargetZ = target.z - ballPosition.z;
+    const distance = Math.sqrt(toTargetX ** 2 + toTargetZ ** 2);
+    const powerFraction = Math.min(1, distance / club.maxCarry);
+    const gravity = Math.abs(this.world.simulation.gravity.y);
+
+    this._currentPower = powerFraction * this.maxPower;
+    this._playShot(
+      getLaunchDirection(club, toTargetX, toTargetZ),
+      getLaunchSpeed(club, powerFraction, gravity),
+      { backspin: 0, sidespin: 0 },
+      this._currentBall.getLie(),
+      undefined,
+      true,
+    );
+    return true;
   }
 
   /**
@@ -154,6 +305,7 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
     // if (this._golfClub?.isSpawned) {
     //   this._golfClub.despawn();
     // }
+    this._removeLandingMarker();
     
     super.despawn();
   }
@@ -163,19 +315,27 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
    */
   private _setupGolfControls(): void {
     // Use the controller's tick event for input handling
-    this.controller?.on(BaseEntityControllerEvent.TICK_WITH_PLAYER_INPUT, ({ input }) => {
-      if (!this._isPlayerTurn) return;
-
-      // Power charging with spacebar
-      if (input.sp && !this._isCharging && this._isAiming) {
-        this._startCharging();
-      } else if (!input.sp && this._isCharging) {
-        this._executeShot();
+    this.controller?.on(BaseEntityControllerEvent.TICK_WITH_PLAYER_INPUT, ({ input, deltaTimeMs }) => {
+      if (ACTIVITY_KEYS.some(key => input[key])) {
+        this._noteActivity();
       }
 
-      // Update power while charging
-      if (this._isCharging) {
-        this._updatePower();
+      if (!this._isPlayerTurn) return;
+
+      if (this._swingMode === 'three-click') {
+        this._handleThreeClickSwing(input, deltaTimeMs);
+      } else {
+        // Power charging with spacebar
+        if (input.sp && !this._isCharging && this._isAiming) {
+          this._startCharging();
+        } else if (!input.sp && this._isCharging) {
+          this._executeShot();
+        }
+
+        // Update power while charging
+        if (this._isCharging) {
+          this._updatePower();
+        }
       }
 
       // Toggle aiming mode with 'F' key
@@ -185,6 +345,25 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
         input.f = false;
       }
 
+      // Cycle clubs with 'Q' (longer) and 'E' (shorter)
+      if (input.q && !this._isCharging) {
+        this.clubBag.previousClub();
+        this._sendClubUpdate();
+        input.q = false;
+      }
+
+      if (input.e && !this._isCharging) {
+        this.clubBag.nextClub();
+        this._sendClubUpdate();
+        input.e = false;
+      }
+
+      // Cycle shot shape (straight, draw, fade) with 'C'
+      if (input.c && !this._isCharging) {
+        this._cycleShotShape();
+        input.c = false;
+      }
+
       // Reset shot with 'R' key (if allowed)
       if (input.r && this._isPlayerTurn && this._currentBall) {
         this._resetBall();
@@ -244,12 +423,92 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
     });
   }
 
+  /**
+   * Drive the three-click swing meter: each SPACE press is one click
+   */
+  private _handleThreeClickSwing(input: PlayerInput, deltaTimeMs: number): void {
+    if (input.sp && (this._isAiming || this._swingMeter.isSwinging())) {
+      // Cancel the input so each press is a single click
+      input.sp = false;
+
+      if (!this._swingMeter.isSwinging()) {
+        this._startCharging();
+      }
+
+      const result = this._swingMeter.tap();
+      if (result) {
+        this._executeShot(result);
+        return;
+      }
+    }
+
+    if (!this._swingMeter.isSwinging()) return;
+
+    // Needle ran out of the miss zone - forced mis-hit
+    const result = this._swingMeter.tick(deltaTimeMs / 1000);
+    if (result) {
+      this._executeShot(result);
+      return;
+    }
+
+    // Power was never set
+    if (!this._swingMeter.isSwinging()) {
+      this._cancelCharging();
+      return;
+    }
+
+    const meter = this._swingMeter.getState();
+    this._currentPower = (meter.phase === 'power' ? Math.max(0, meter.needle) : meter.power) * this.maxPower;
+    this._sendPowerMeter(true);
+
+    if (this._chargeTicks++ % LANDING_PREVIEW_INTERVAL_TICKS === 0) {
+      this._updateLandingPreview();
+    }
+  }
+
+  /**
+   * Send the power meter state to the HUD
+   */
+  private _sendPowerMeter(isCharging: boolean): void {
+    const meter = this._swingMeter.getState();
+
+    this.player.ui.sendData({
+      type: 'golf-power-meter',
+      power: this._currentPower,
+      maxPower: this.maxPower,
+      isCharging,
+      mode: this._swingMode,
+      swingPhase: meter.phase,
+      needle: meter.needle,
+      setPower: meter.power,
+      sweetSpot: meter.sweetSpot,
+      accuracyWindow: meter.accuracyWindow,
+      missLimit: meter.missLimit,
+    });
+  }
+
+  /**
+   * Abandon a swing without hitting the ball
+   */
+  private _cancelCharging(): void {
+    this._isCharging = false;
+    this._currentPower = 0;
+    this._swingMeter.cancel();
+
+    if (this._chargingAudio) {
+      this._chargingAudio.stop();
+    }
+    this._removeLandingMarker();
+    this._sendPowerMeter(false);
+  }
+
   /**
    * Start power charging
    */
   private _startCharging(): void {
     this._isCharging = true;
     this._currentPower = 0;
+    this._chargeTicks = 0;
 
     // Play charging sound
     if (this._chargingAudio && this.world) {
@@ -270,18 +529,126 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
     this._currentPower = Math.min(this._currentPower + powerIncrement, this.maxPower);
 
     // Send power update to UI
+    this._sendPowerMeter(true);
+
+    // Show where the shot would land at the current power
+    if (this._chargeTicks++ % LANDING_PREVIEW_INTERVAL_TICKS === 0) {
+      this._updateLandingPreview();
+    }
+  }
+
+  /**
+   * Work out the launch for the current club, power and aim
+   */
+  private _getShotLaunch(offlineDegrees: number, distanceFactor: number = 1) {
+    const club = this.clubBag.getCurrentClub();
+    const powerFraction = (this._currentPower / this.maxPower) * distanceFactor;
+
+    // Horizontal aim comes from the camera, launch angle from the club
+    const facingDirection = this.player.camera.facingDirection;
+    const direction = getLaunchDirection(club, facingDirection.x, facingDirection.z, offlineDegrees);
+
+    // Calculate launch speed from the club's carry, losing distance from bad lies
+    const lie = this._currentBall?.getLie() ?? 'tee';
+    const gravity = Math.abs(this.world?.simulation.gravity.y ?? 0);
+    const launchSpeed = getLaunchSpeed(club, powerFraction, gravity) * SURFACE_PHYSICS[lie].shotPowerFactor;
+
+    return { club, powerFraction, direction, lie, gravity, launchSpeed };
+  }
+
+  /**
+   * Work out spin from the club, how hard it was swung, the chosen shape and any mis-hit
+   */
+  private _getShotSpin(powerFraction: number, swing?: SwingResult): BallSpin {
+    const club = this.clubBag.getCurrentClub();
+    const shapeSidespin = this._shotShape === 'draw' ? -SHOT_SHAPE_SIDESPIN : this._shotShape === 'fade' ? SHOT_SHAPE_SIDESPIN : 0;
+    const missSidespin = (swing?.offlineDegrees ?? 0) * (1 - SWING_MISS_START_LINE_SHARE) * SIDESPIN_PER_MISS_DEGREE;
+
+    return {
+      // Thin mis-hits lose spin along with distance
+      backspin: club.backspin * (0.5 + 0.5 * powerFraction) * (swing?.distanceFactor ?? 1),
+      sidespin: club.category === 'putter' ? 0 : shapeSidespin + missSidespin,
+    };
+  }
+
+  /**
+   * Start line offset for the chosen shot shape
+   */
+  private _getShapeStartLine(): number {
+    if (this.clubBag.getCurrentClub().category === 'putter') return 0;
+    return this._shotShape === 'draw' ? SHOT_SHAPE_START_LINE : this._shotShape === 'fade' ? -SHOT_SHAPE_START_LINE : 0;
+  }
+
+  /**
+   * Cycle between straight, draw and fade
+   */
+  private _cycleShotShape(): void {
+    this._shotShape = this._shotShape === 'straight' ? 'draw' : this._shotShape === 'draw' ? 'fade' : 'straight';
+
     this.player.ui.sendData({
-      type: 'golf-power-meter',
-      power: this._currentPower,
-      maxPower: this.maxPower,
-      isCharging: true,
+      type: 'golf-shot-shape',
+      shape: this._shotShape,
     });
   }
 
   /**
-   * Execute the golf shot
+   * Move the landing marker to where the ball would come down (ignoring dispersion and wind)
+   */
+  private _updateLandingPreview(): void {
+    if (!this.world || !this._currentBall?.isSpawned) return;
+
+    const world = this.world;
+    const ballPosition = this._currentBall.position;
+    const { club, powerFraction, direction, gravity, launchSpeed } = this._getShotLaunch(this._getShapeStartLine());
+
+    let landing: Vector3Like;
+    if (club.category === 'putter') {
+      // Putts roll out under the green's rolling resistance
+      const rollDistance = launchSpeed / SURFACE_PHYSICS.green.rollingResistance;
+      landing = {
+        x: ballPosition.x + direction.x * rollDistance,
+        y: ballPosition.y,
+        z: ballPosition.z + direction.z * rollDistance,
+      };
+    } else {
+      landing = simulateBallFlight({
+        position: ballPosition,
+        direction,
+        launchSpeed,
+        spin: this._getShotSpin(powerFraction),
+        gravity,
+        ballRadius: this._currentBall.ballRadius,
+        sampleEvery: 10,
+        groundHeightAt: position => sampleGround(world, position, 2)?.surfaceY,
+      }).landing;
+    }
+
+    // Sit the marker on the ground where it lands
+    const ground = sampleGround(world, { x: landing.x, y: landing.y + 1, z: landing.z }, 4);
+    const markerPosition = { x: landing.x, y: (ground?.surfaceY ?? landing.y) + 0.03, z: landing.z };
+
+    if (!this._landingMarker?.isSpawned) {
+      this._landingMarker = new LandingMarkerEntity();
+      this._landingMarker.spawn(world, markerPosition);
+    } else {
+      this._landingMarker.setPosition(markerPosition);
+    }
+  }
+
+  /**
+   * Remove the landing marker
+   */
+  private _removeLandingMarker(): void {
+    if (this._landingMarker?.isSpawned) {
+      this._landingMarker.despawn();
+    }
+    this._landingMarker = undefined;
+  }
+
+  /**
+   * Execute the golf shot, with the three-click result if one was used
    */
-  private _executeShot(): void {
+  private _executeShot(swing?: SwingResult): void {
     if (!this._isCharging || !this._currentBall || !this.world) return;
 
     this._isCharging = false;
@@ -290,15 +657,37 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
     if (this._chargingAudio) {
       this._chargingAudio.stop();
     }
+    this._removeLandingMarker();
 
-    // Calculate shot direction from camera facing direction
-    const aimDirection = this.player.camera.facingDirection;
-    
-    // Calculate force based on power (scale appropriately)
-    const force = (this._currentPower / this.maxPower) * 50; // Max force of 50
+    if (swing) {
+      this._currentPower = swing.power * this.maxPower;
+    }
+
+    // Launch along the aim, pushed off line by the club's dispersion, the shot shape and any hook or slice
+    const club = this.clubBag.getCurrentClub();
+    const dispersion = (Math.random() * 2 - 1) * club.dispersion * (this._currentPower / this.maxPower);
+    const swingStartLine = (swing?.offlineDegrees ?? 0) * SWING_MISS_START_LINE_SHARE;
+    const offline = dispersion + this._getShapeStartLine() + swingStartLine;
+    const { direction: aimDirection, lie, launchSpeed: force, powerFraction } = this._getShotLaunch(offline, swing?.distanceFactor);
+    const spin = this._getShotSpin(powerFraction, swing);
+
+    this._playShot(aimDirection, force, spin, lie, swing);
+  }
+
+  /**
+   * Strike the ball and tell the HUD and game about the shot
+   */
+  private _playShot(aimDirection: Vector3Like, force: number, spin: BallSpin, lie: BallLie, swing?: SwingResult, auto: boolean = false): void {
+    if (!this._currentBall || !this.world) return;
+
+    const club = this.clubBag.getCurrentClub();
+    const power = this._currentPower;
+
+    // Remember where the stroke is played from (for penalty relief and replays)
+    const fromPosition = { ...this._currentBall.position };
 
     // Execute the shot
-    this._currentBall.hit(aimDirection, force);
+    this._currentBall.hit(aimDirection, force, spin);
     this._shotCount++;
 
     // Play swing sound
@@ -309,34 +698,67 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
     // Update UI
     this.player.ui.sendData({
       type: 'golf-shot-executed',
-      power: this._currentPower,
+      power,
       force: force,
       direction: aimDirection,
-      shotCount: this._shotCount,
-    });
-
-    this.player.ui.sendData({
-      type: 'golf-power-meter',
-      power: 0,
-      maxPower: this.maxPower,
-      isCharging: false,
+      club: club.name,
+      lie,
+      swingShape: swing?.shape,
+      accuracy: swing?.accuracy,
+      shotShape: this._shotShape,
+      spin,
+      shotCount: this.getScore(),
     });
 
     // Reset power
     this._currentPower = 0;
+    this._sendPowerMeter(false);
 
     // Stop aiming after shot
     this._stopAiming();
 
-    console.log(`Player ${this.player.username} executed shot ${this._shotCount} with power ${this._currentPower.toFixed(1)}`);
+    console.log(`Player ${this.player.username} executed shot ${this._shotCount} with power ${power.toFixed(1)}`);
 
     // Emit shot event for game management
     this.emit('golf-shot', {
       player: this,
       ball: this._currentBall,
-      power: this._currentPower,
+      power,
       direction: aimDirection,
+      club,
+      lie,
+      spin,
+      fromPosition,
       shotCount: this._shotCount,
+      auto,
+    });
+  }
+
+  /**
+   * Let the game know the player is at the keyboard, at most once a second
+   */
+  private _noteActivity(): void {
+    const now = Date.now();
+    if (now - this._lastActivityAt < ACTIVITY_EVENT_INTERVAL_MS) return;
+
+    this._lastActivityAt = now;
+    this.emit('golf-activity', { player: this.player });
+  }
+
+  /**
+   * Tell the HUD which club is in hand
+   */
+  private _sendClubUpdate(): void {
+    const club = this.clubBag.getCurrentClub();
+
+    this.player.ui.sendData({
+      type: 'golf-club-changed',
+      club: {
+        id: club.id,
+        name: club.name,
+        loft: club.loft,
+        maxCarry: club.maxCarry,
+      },
     });
   }
 
@@ -413,6 +835,8 @@ export default class GolfPlayerEntity extends DefaultPlayerEntity {
         aim: 'Mouse movement',
         charge: 'Hold SPACE',
         toggleAim: 'Press F',
+        cycleClub: 'Press Q / E',
+        shotShape: 'Press C',
         resetBall: 'Press R',
       },
     });
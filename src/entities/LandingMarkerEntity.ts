@@ -0,0 +1,31 @@
+/**
+ * Landing Marker Entity - Following Hytopia SDK Guidelines
+ * 
+ * Flat marker showing where a shot is predicted to land:
+ * - Kinematic so it can be moved every tick without physics
+ * - No colliders, so it never interferes with balls or players
+ */
+
+import {
+  Entity,
+  EntityOptions,
+  RigidBodyType,
+} from 'hytopia';
+
+export default class LandingMarkerEntity extends Entity {
+  constructor(options: Partial<EntityOptions> = {}) {
+    super({
+      name: 'Landing Marker',
+      blockTextureUri: 'blocks/gold-ore.png',
+      blockHalfExtents: { x: 0.4, y: 0.02, z: 0.4 },
+
+      rigidBodyOptions: {
+        type: RigidBodyType.KINEMATIC_POSITION,
+        colliders: [], // Purely visual
+      },
+
+      // Pass through other options
+      ...options,
+    });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Golf Club Bag
+ * 
+ * The clubs a golfer can choose from:
+ * - Loft and launch angle per club
+ * - Full-power carry distance (roll distance for the putter)
+ * - Dispersion (how far off line a full swing can go)
+ * - Backspin at impact
+ */
+
+import { SURFACE_PHYSICS } from '../physics/SurfacePhysics.ts';
+
+export type GolfClubCategory = 'driver' | 'wood' | 'iron' | 'wedge' | 'putter';
+
+export interface GolfClub {
+  id: string;
+  name: string;
+  category: GolfClubCategory;
+  loft: number;         // Club face loft in degrees
+  launchAngle: number;  // Ball launch angle in degrees
+  maxCarry: number;     // Carry at full power in blocks (roll distance for the putter)
+  dispersion: number;   // Max degrees off line at full power
+  backspin: number;     // Backspin at impact in revolutions per second (negative is topspin)
+}
+
+export const DEFAULT_CLUBS: GolfClub[] = [
+  { id: 'driver', name: 'Driver', category: 'driver', loft: 10.5, launchAngle: 13, maxCarry: 60, dispersion: 6, backspin: 40 },
+  { id: '3-wood', name: '3 Wood', category: 'wood', loft: 15, launchAngle: 15, maxCarry: 52, dispersion: 5, backspin: 50 },
+  { id: '5-wood', name: '5 Wood', category: 'wood', loft: 18, launchAngle: 17, maxCarry: 47, dispersion: 4.5, backspin: 55 },
+  { id: '4-iron', name: '4 Iron', category: 'iron', loft: 22, launchAngle: 19, maxCarry: 42, dispersion: 4, backspin: 70 },
+  { id: '6-iron', name: '6 Iron', category: 'iron', loft: 28, launchAngle: 23, maxCarry: 36, dispersion: 3.5, backspin: 85 },
+  { id: '8-iron', name: '8 Iron', category: 'iron', loft: 36, launchAngle: 28, maxCarry: 30, dispersion: 3, backspin: 100 },
+  { id: 'pitching-wedge', name: 'Pitching Wedge', category: 'wedge', loft: 46, launchAngle: 34, maxCarry: 24, dispersion: 2.5, backspin: 120 },
+  { id: 'sand-wedge', name: 'Sand Wedge', category: 'wedge', loft: 56, launchAngle: 40, maxCarry: 17, dispersion: 2.5, backspin: 145 },
+  { id: 'lob-wedge', name: 'Lob Wedge', category: 'wedge', loft: 60, launchAngle: 45, maxCarry: 12, dispersion: 2, backspin: 155 },
+  { id: 'putter', name: 'Putter', category: 'putter', loft: 3, launchAngle: 0, maxCarry: 20, dispersion: 0.5, backspin: -5 },
+];
+
+export default class GolfClubBag {
+  public readonly clubs: GolfClub[];
+  private _currentIndex: number = 0;
+
+  constructor(clubs: GolfClub[] = DEFAULT_CLUBS) {
+    this.clubs = clubs;
+  }
+
+  /**
+   * Get the club currently in hand
+   */
+  public getCurrentClub(): GolfClub {
+    return this.clubs[this._currentIndex] ?? DEFAULT_CLUBS[0]!;
+  }
+
+  /**
+   * Move to the next (shorter) club
+   */
+  public nextClub(): GolfClub {
+    this._currentIndex = (this._currentIndex + 1) % this.clubs.length;
+    return this.getCurrentClub();
+  }
+
+  /**
+   * Move to the previous (longer) club
+   */
+  public previousClub(): GolfClub {
+    this._currentIndex = (this._currentIndex - 1 + this.clubs.length) % this.clubs.length;
+    return this.getCurrentClub();
+  }
+
+  /**
+   * Select a club by id (or the first club of a category)
+   */
+  public selectClub(idOrCategory: string): GolfClub | undefined {
+    const index = this.clubs.findIndex(club => club.id === idOrCategory || club.category === idOrCategory);
+    if (index === -1) return undefined;
+
+    this._currentIndex = index;
+    return this.getCurrentClub();
+  }
+}
+
+/**
+ * Launch speed needed for a club to carry (or roll) its distance at a given power
+ */
+export function getLaunchSpeed(club: GolfClub, powerFraction: number, gravity: number): number {
+  const distance = club.maxCarry * powerFraction;
+
+  // Putts roll out under the green's rolling resistance
+  if (club.category === 'putter') {
+    return distance * SURFACE_PHYSICS.green.rollingResistance;
+  }
+
+  // Projectile range: distance = v^2 * sin(2θ) / g
+  const launchAngle = club.launchAngle * Math.PI / 180;
+  return Math.sqrt((distance * gravity) / Math.sin(2 * launchAngle));
+}
+
+/**
+ * Build the launch direction from a horizontal aim, the club's launch angle and
+ * an offline angle in degrees (dispersion, hooks and slices; positive is right)
+ */
+export function getLaunchDirection(club: GolfClub, aimX: number, aimZ: number, offlineDegrees: number = 0): { x: number; y: number; z: number } {
+  const aimLength = Math.sqrt(aimX ** 2 + aimZ ** 2) || 1;
+  const offline = offlineDegrees * Math.PI / 180;
+
+  // Rotate the horizontal aim about the vertical axis
+  const horizontalX = (aimX * Math.cos(offline) - aimZ * Math.sin(offline)) / aimLength;
+  const horizontalZ = (aimX * Math.sin(offline) + aimZ * Math.cos(offline)) / aimLength;
+
+  const launchAngle = club.launchAngle * Math.PI / 180;
+  return {
+    x: horizontalX * Math.cos(launchAngle),
+    y: Math.sin(launchAngle),
+    z: horizontalZ * Math.cos(launchAngle),
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * Camera Director - Ball-cam for everyone watching a shot
+ *
+ * Points the cameras of players who aren't hitting at the shot in play:
+ * - Follows the ball in flight
+ * - Cuts to the landing area when the ball comes down
+ * - Returns each watcher to their chosen view once the ball settles
+ * - Players can choose free roam to keep their camera to themselves
+ * - Works the same for spectators who aren't playing
+ * - Follows replays for whoever asked to watch one
+ */
+
+import {
+  Entity,
+  Player,
+  PlayerCameraMode,
+  Vector3Like,
+} from 'hytopia';
+
+import type { GolfHole } from './GolfGameManager.ts';
+
+// Where the camera goes between shots: your own golfer, behind the tee,
+// beside the green, or wherever you take it yourself
+export type SpectatorView = 'player' | 'tee' | 'green' | 'free';
+
+export const SPECTATOR_VIEWS: SpectatorView[] = ['player', 'tee', 'green', 'free'];
+
+export const DEFAULT_SPECTATOR_VIEW: SpectatorView = 'player';
+
+const BALL_CAM_OFFSET: Vector3Like = { x: 0, y: 3, z: 8 };
+const LANDING_CAM_OFFSET: Vector3Like = { x: 6, y: 5, z: 6 };
+const TEE_CAM_DISTANCE = 6;    // Behind the tee, looking down the hole
+const TEE_CAM_HEIGHT = 4;
+const GREEN_CAM_DISTANCE = 8;  // Past the cup, looking back at the approach
+const GREEN_CAM_HEIGHT = 6;
+const PLAYER_CAM_OFFSET: Vector3Like = { x: 0, y: 1.6, z: 0 };
+
+interface CameraWatcher {
+  player: Player;
+  entity: Entity;           // Where the 'player' view puts the camera
+  view: SpectatorView;
+  following: boolean;       // Camera is on the shot in play
+}
+
+export default class CameraDirector {
+  private _watchers: Map<string, CameraWatcher> = new Map(); // Player id to watcher
+  private _ball: Entity | undefined;                         // The shot being followed
+  private _landed: boolean = false;
+  private _hole: GolfHole | undefined;
+
+  /**
+   * Start directing a player's camera (players and spectators alike)
+   */
+  public addWatcher(player: Player, entity: Entity): void {
+    this._watchers.set(player.id, {
+      player,
+      entity,
+      view: this._watchers.get(player.id)?.view ?? DEFAULT_SPECTATOR_VIEW,
+      following: false,
+    });
+  }
+
+  /**
+   * Stop directing a player's camera, handing it back to their golfer
+   */
+  public removeWatcher(player: Player): void {
+    const watcher = this._watchers.get(player.id);
+    if (!watcher) return;
+
+    if (watcher.following) {
+      this._applyView({ ...watcher, view: 'player' });
+    }
+    this._watchers.delete(player.id);
+  }
+
+  /**
+   * Choose where a player's camera goes between shots; 'free' opts out of the ball-cam.
+   * The view is used straight away unless the player is lining up their own shot
+   * or watching one.
+   */
+  public setView(player: Player, view: SpectatorView, applyNow: boolean = true): boolean {
+    const watcher = this._watchers.get(player.id);
+    if (!watcher) return false;
+
+    watcher.view = view;
+    if (applyNow && !watcher.following) {
+      this._applyView(watcher);
+    }
+    return true;
+  }
+
+  /**
+   * Get a player's chosen view
+   */
+  public getView(player: Player): SpectatorView {
+    return this._watchers.get(player.id)?.view ?? DEFAULT_SPECTATOR_VIEW;
+  }
+
+  /**
+   * Set the hole the tee and green views look at
+   */
+  public setHole(hole: GolfHole | undefined): void {
+    this._hole = hole;
+  }
+
+  /**
+   * Put everyone watching on a ball that has just been hit. The players who
+   * are busy with their own shot are left alone.
+   */
+  public followBall(ball: Entity, busyPlayerIds: string[]): void {
+    this._ball = ball;
+    this._landed = false;
+
+    this._watchers.forEach(watcher => {
+      watcher.following = watcher.view !== 'free' && !busyPlayerIds.includes(watcher.player.id);
+      if (!watcher.following) return;
+
+      const { camera } = watcher.player;
+      camera.setMode(PlayerCameraMode.THIRD_PERSON);
+      camera.setAttachedToEntity(ball);
+      camera.setTrackedEntity(undefined);
+      camera.setOffset(BALL_CAM_OFFSET);
+    });
+  }
+
+  /**
+   * Cut to the landing area the first time the followed ball comes down
+   */
+  public showLanding(ball: Entity, position: Vector3Like): void {
+    if (ball !== this._ball || this._landed) return;
+    this._landed = true;
+
+    const cameraPosition = {
+      x: position.x + LANDING_CAM_OFFSET.x,
+      y: position.y + LANDING_CAM_OFFSET.y,
+      z: position.z + LANDING_CAM_OFFSET.z,
+    };
+
+    this._getFollowers().forEach(watcher => {
+      const { camera } = watcher.player;
+      camera.setAttachedToPosition(cameraPosition);
+      camera.setOffset({ x: 0, y: 0, z: 0 });
+      camera.setTrackedEntity(ball);
+    });
+  }
+
+  /**
+   * Send everyone back to their chosen view once the followed ball has
+   * settled, or has gone (holed, lost or picked up)
+   */
+  public releaseBall(ball: Entity | undefined): void {
+    if (!ball || ball !== this._ball) return;
+
+    this._ball = undefined;
+    this._getFollowers().forEach(watcher => this._applyView(watcher));
+  }
+
+  /**
+   * Stop following the shot for a player whose own turn is starting
+   */
+  public releasePlayer(player: Player): void {
+    const watcher = this._watchers.get(player.id);
+    if (watcher) {
+      watcher.following = false;
+    }
+  }
+
+  /**
+   * Follow a replay's ghost ball for one player
+   */
+  public showReplay(player: Player, ghost: Entity): void {
+    const watcher = this._watchers.get(player.id);
+    if (!watcher) return;
+
+    watcher.following = false;
+    const { camera } = player;
+    camera.setMode(PlayerCameraMode.THIRD_PERSON);
+    camera.setAttachedToEntity(ghost);
+    camera.setTrackedEntity(undefined);
+    camera.setOffset(BALL_CAM_OFFSET);
+  }
+
+  /**
+   * Send a player back to their chosen view after a replay (free roam goes back to their golfer)
+   */
+  public endReplay(player: Player): void {
+    const watcher = this._watchers.get(player.id);
+    if (!watcher) return;
+
+    this._applyView(watcher.view === 'free' ? { ...watcher, view: 'player' } : watcher);
+  }
+
+  private _getFollowers(): CameraWatcher[] {
+    return Array.from(this._watchers.values()).filter(watcher => watcher.following);
+  }
+
+  /**
+   * Move a player's camera to their chosen view
+   */
+  private _applyView(watcher: CameraWatcher): void {
+    watcher.following = false;
+    if (watcher.view === 'free') return;
+
+    const { camera } = watcher.player;
+    const hole = this._hole;
+
+    if (watcher.view === 'player' || !hole) {
+      camera.setAttachedToEntity(watcher.entity);
+      camera.setTrackedEntity(undefined);
+      camera.setTrackedPosition(undefined);
+      camera.setOffset(PLAYER_CAM_OFFSET);
+      return;
+    }
+
+    // Tee and green views sit on the line of the hole, looking along it
+    const dx = hole.holePosition.x - hole.teePosition.x;
+    const dz = hole.holePosition.z - hole.teePosition.z;
+    const length = Math.sqrt(dx * dx + dz * dz) || 1;
+    const [anchor, distance, height, target] = watcher.view === 'tee'
+      ? [hole.teePosition, -TEE_CAM_DISTANCE, TEE_CAM_HEIGHT, hole.holePosition]
+      : [hole.holePosition, GREEN_CAM_DISTANCE, GREEN_CAM_HEIGHT, hole.teePosition];
+
+    camera.setAttachedToPosition({
+      x: anchor.x + (dx / length) * distance,
+      y: anchor.y + height,
+      z: anchor.z + (dz / length) * distance,
+    });
+    camera.setOffset({ x: 0, y: 0, z: 0 });
+    camera.setTrackedPosition(target);
+  }
+}
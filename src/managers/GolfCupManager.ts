@@ -0,0 +1,106 @@
+/**
+ * Golf Cup Manager - Cups shared by every group on the course
+ *
+ * Groups play the same course, so a hole only ever has one cup:
+ * - The first group to reach a hole puts the cup and flagstick in
+ * - Later groups on the hole use the same cup
+ * - The cup comes out once the last group has moved on
+ * - The flag is only pulled while every group on the hole is putting
+ */
+
+import { World } from 'hytopia';
+
+import GolfHoleEntity from '../entities/GolfHoleEntity.ts';
+import type GolfGameManager from './GolfGameManager.ts';
+import type { GolfHole } from './GolfGameManager.ts';
+
+interface SharedCup {
+  cup: GolfHoleEntity;
+  games: Set<GolfGameManager>;       // Groups playing the hole
+  pullingFlag: Set<GolfGameManager>; // Groups that want the flag out
+}
+
+export default class GolfCupManager {
+  private _world: World;
+  private _cups: Map<string, SharedCup> = new Map();              // Hole position to cup
+  private _gameCups: Map<GolfGameManager, string> = new Map();    // Group's game to the cup it's playing to
+
+  constructor(world: World) {
+    this._world = world;
+  }
+
+  /**
+   * Play a game to the cup on a hole, putting the cup in if no other group is there
+   */
+  public claimCup(game: GolfGameManager, hole: GolfHole): GolfHoleEntity {
+    this.releaseCup(game);
+
+    const key = this._getCupKey(hole);
+    let shared = this._cups.get(key);
+    if (!shared) {
+      const cup = new GolfHoleEntity({ holeRadius: hole.holeRadius });
+      cup.spawn(this._world, hole.holePosition);
+      shared = { cup, games: new Set(), pullingFlag: new Set() };
+      this._cups.set(key, shared);
+    }
+
+    shared.games.add(game);
+    this._gameCups.set(game, key);
+    this._updateFlag(shared);
+    return shared.cup;
+  }
+
+  /**
+   * Stop playing to a game's cup, taking it out if no other group is on the hole
+   */
+  public releaseCup(game: GolfGameManager): void {
+    const key = this._gameCups.get(game);
+    const shared = key ? this._cups.get(key) : undefined;
+    this._gameCups.delete(game);
+    if (!key || !shared) return;
+
+    shared.games.delete(game);
+    shared.pullingFlag.delete(game);
+    if (shared.games.size > 0) {
+      this._updateFlag(shared);
+      return;
+    }
+
+    if (shared.cup.isSpawned) {
+      shared.cup.despawn();
+    }
+    this._cups.delete(key);
+  }
+
+  /**
+   * Ask for the flag on a game's hole to be pulled (for putts) or put back
+   */
+  public setFlagPulled(game: GolfGameManager, pulled: boolean): void {
+    const key = this._gameCups.get(game);
+    const shared = key ? this._cups.get(key) : undefined;
+    if (!shared) return;
+
+    if (pulled) {
+      shared.pullingFlag.add(game);
+    } else {
+      shared.pullingFlag.delete(game);
+    }
+    this._updateFlag(shared);
+  }
+
+  /**
+   * Keep the flag in while any group on the hole is still playing up to the green
+   */
+  private _updateFlag(shared: SharedCup): void {
+    if (shared.pullingFlag.size === shared.games.size) {
+      shared.cup.removeFlag();
+    } else {
+      shared.cup.raiseFlag();
+    }
+  }
+
+  private _getCupKey(hole: GolfHole): string {
+    const { x, y, z } = hole.holePosition;
+    return `${x},${y},${z}`;
+  }
+}
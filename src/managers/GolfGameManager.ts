@@ -3,15 +3,25 @@
  * 
  * Manages the overall golf game flow:
  * - Turn-based gameplay
- * - Scoring system
+ * - Stroke play, match play and Stableford
+ * - Team formats: scramble, best ball and alternate shot
+ * - Simultaneous play, everyone on their own ball at once
+ * - Shot clock, skipping players who are away
+ * - Ball-cam for players and spectators watching a shot
+ * - Shot recording and ghost ball replays
+ * - Shot measurements and round stats
+ * - Scoring system (gross and handicap net)
  * - Course management
  * - Hole completion detection
+ * - Wind for each hole
+ * - Saving completed rounds to the round history, and announcing course records
  * - Game state tracking
  */
 
 import {
   World,
   Player,
+  Entity,
   Vector3Like,
   EntityEvent,
   Audio,
@@ -19,42 +29,224 @@ import {
 
 import GolfBallEntity from '../entities/GolfBallEntity.ts';
 import GolfPlayerEntity from '../entities/GolfPlayerEntity.ts';
+import GhostBallEntity from '../entities/GhostBallEntity.ts';
+import CameraDirector, { type SpectatorView } from './CameraDirector.ts';
+import GolfCupManager from './GolfCupManager.ts';
+import type RoundHistoryStore from '../persistence/RoundHistoryStore.ts';
+import type { CourseLeaderboard, LeaderboardEntry } from '../persistence/RoundHistoryStore.ts';
+import ShotRecorder, {
+  exportShot,
+  getShotDistance,
+  type ShotRecording,
+  type ShotResult,
+} from '../replay/ShotRecorder.ts';
+import ShotClock, {
+  keepsShotAfterTimeout,
+  SHOT_CLOCK_PENALTY_STROKES,
+  type ShotClockAction,
+  type ShotClockOptions,
+} from '../mechanics/ShotClock.ts';
+import { allocateHandicapStrokes, getCourseHandicap } from '../scoring/Handicap.ts';
+import MatchPlay, { type MatchSide } from '../scoring/MatchPlay.ts';
+import { getScoreType } from '../scoring/ScoreType.ts';
+import { calculateRoundStats, measureShot, type RoundStats } from '../scoring/ShotStats.ts';
+import {
+  canPickUp,
+  createStablefordConfig,
+  getPickUpStrokes,
+  getStablefordPoints,
+  type StablefordConfig,
+  type StablefordOptions,
+} from '../scoring/Stableford.ts';
+import TeamPlay, {
+  createTeams,
+  pickScrambleBall,
+  type GolfTeam,
+  type ScrambleCandidate,
+  type TeamFormat,
+} from '../scoring/TeamPlay.ts';
+import type { GolfCourse } from '../course/CourseData.ts';
+import { sampleGround } from '../course/CourseTerrain.ts';
+import type { GolfClub } from '../equipment/GolfClubBag.ts';
+import type { BallLie } from '../physics/SurfacePhysics.ts';
+import {
+  createRandomWind,
+  getRelativeWindDirection,
+  type WindSettings,
+} from '../physics/Wind.ts';
 
 export interface GolfHole {
   id: number;
   name: string;
   par: number;
+  strokeIndex: number;      // Handicap stroke order, 1 is the hardest hole
   teePosition: Vector3Like;
   holePosition: Vector3Like;
   holeRadius: number;
+  bounds: { min: Vector3Like; max: Vector3Like }; // Balls leaving this volume are out of bounds
+  killHeight: number;       // Balls falling below this are out of bounds
+  wind?: WindSettings;      // Scripted wind, random each time the hole is played when left out
+}
+
+export type ReplayChoice = 'last' | 'best';
+
+// What a player entity reports when it hits the ball
+interface GolfShotPayload {
+  fromPosition: Vector3Like;
+  club: GolfClub;
+  power: number;
+  lie: BallLie;
+  auto?: boolean;             // Played by the shot clock
+}
+
+export type GolfGameMode = 'stroke-play' | 'match-play' | 'stableford' | TeamFormat;
+
+const TEAM_FORMATS: GolfGameMode[] = ['scramble', 'best-ball', 'alternate-shot'];
+
+export interface GolfGameOptions {
+  stableford?: StablefordOptions; // Points table and net scoring for this event
+  simultaneous?: boolean;         // Everyone plays their own ball at once instead of taking turns
+  strokeCap?: number;             // Most strokes on a hole before picking up (simultaneous play and AFK players)
+  shotClock?: ShotClockOptions;   // Time limit per shot, off unless given
+}
+
+export type ReliefOptionId = 'replay' | 'back-on-line' | 'lateral';
+
+export interface ReliefOption {
+  id: ReliefOptionId;
+  label: string;
+  position: Vector3Like;    // Where the ball will be dropped
+}
+
+// Messages the HUD sends back to the game
+export type GolfUIMessage =
+  | { type: 'golf-relief-choice'; option: ReliefOptionId }
+  | { type: 'golf-history-request' }
+  | { type: 'golf-course-leaderboard-request' }
+  | { type: 'golf-pick-up' }
+  | { type: 'golf-scramble-choice'; playerId: string }
+  | { type: 'golf-replay'; shot: ReplayChoice }
+  | { type: 'golf-replay-export'; shot: ReplayChoice }
+  | { type: 'golf-concede'; concession: 'putt' | 'hole' }
+  | { type: 'golf-ui-heartbeat'; timestamp: number };
+
+const RELIEF_OPTION_IDS: ReliefOptionId[] = ['replay', 'back-on-line', 'lateral'];
+const REPLAY_CHOICES: ReplayChoice[] = ['last', 'best'];
+
+/**
+ * Check data sent from a HUD is a message we know, with fields of the right types;
+ * undefined for anything else, as the client can send whatever it likes
+ */
+export function parseGolfUIMessage(data: unknown): GolfUIMessage | undefined {
+  if (typeof data !== 'object' || data === null) return undefined;
+  const message = data as Record<string, unknown>;
+  const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T =>
+    typeof value === 'string' && (allowed as readonly string[]).includes(value);
+
+  switch (message.type) {
+    case 'golf-history-request':
+    case 'golf-course-leaderboard-request':
+    case 'golf-pick-up':
+      return { type: message.type };
+    case 'golf-relief-choice':
+      return isOneOf(message.option, RELIEF_OPTION_IDS) ? { type: message.type, option: message.option } : undefined;
+    case 'golf-scramble-choice':
+      return typeof message.playerId === 'string' ? { type: message.type, playerId: message.playerId } : undefined;
+    case 'golf-replay':
+    case 'golf-replay-export':
+      return isOneOf(message.shot, REPLAY_CHOICES) ? { type: message.type, shot: message.shot } : undefined;
+    case 'golf-concede':
+      return isOneOf(message.concession, ['putt', 'hole'] as const) ? { type: message.type, concession: message.concession } : undefined;
+    case 'golf-ui-heartbeat':
+      return typeof message.timestamp === 'number' ? { type: message.type, timestamp: message.timestamp } : undefined;
+    default:
+      return undefined;
+  }
 }
 
 export interface PlayerScore {
   player: Player;
   golfEntity: GolfPlayerEntity;
+  golfBall: GolfBallEntity | undefined; // Player's own ball for the current hole
   strokes: number[];        // Strokes per hole
+  penalties: number[];      // Penalty strokes per hole (included in strokes)
   totalStrokes: number;
+  points: number[];         // Stableford points per hole
+  totalPoints: number;
+  handicapIndex: number | undefined; // From round history, undefined until enough rounds are stored
+  courseHandicap: number;   // Strokes received on this course
+  handicapStrokes: number[]; // Strokes received per hole
   currentHole: number;
+  holedOut: boolean;        // Finished the current hole
+  lastStrokePosition: Vector3Like | undefined; // Where the latest stroke was played from
+  pendingRelief: ReliefOption[] | undefined;   // Relief options awaiting the player's choice
+  estimatedHoles: number[];  // Holes scored without being played out (conceded in match play, or picked up)
+}
+
+// Lateral relief is taken within two club lengths of where the ball entered the hazard
+const CLUB_LENGTH = 1;
+const LATERAL_RELIEF_DISTANCE = CLUB_LENGTH * 2;
+
+// Dropped balls are placed just above the ground
+const DROP_HEIGHT = 0.25;
+
+// In simultaneous play a player picks up once they reach this many strokes on a hole
+export const DEFAULT_STROKE_CAP = 10;
+
+// Scramble teams get this long to choose their ball before the nearest one is taken
+const SCRAMBLE_CHOICE_TIME_MS = 10000;
+
+interface ScrambleShot {
+  spot: Vector3Like;        // Where every teammate plays the next shot from
+  hit: Set<string>;         // Players who have hit from the spot
+  strokes: number;          // Team strokes so far on the hole, penalties included
+  penalties: number;
 }
 
 export default class GolfGameManager {
   private _world: World;
   private _players: Map<string, PlayerScore> = new Map();
-  private _currentPlayerIndex: number = 0;
+  private _spectators: Map<string, Player> = new Map(); // Watching without playing
+  private _cameraDirector: CameraDirector = new CameraDirector();
+  private _currentPlayerId: string | undefined;
   private _currentHole: number = 0;
   private _gameInProgress: boolean = false;
+  private _course: GolfCourse;
+  private _mode: GolfGameMode = 'stroke-play';
+  private _simultaneous: boolean = false;
+  private _strokeCap: number = DEFAULT_STROKE_CAP;
+  private _roundHistory: RoundHistoryStore | undefined;
+  private _match: MatchPlay | undefined;
+  private _stableford: StablefordConfig | undefined;
+  private _teamPlay: TeamPlay | undefined;
+  private _teamAssignments: Map<string, string> = new Map(); // Player id to chosen team name
+  private _nextHitters: Map<string, string> = new Map();     // Alternate shot: team id to who hits next
+  private _scrambleShots: Map<string, ScrambleShot> = new Map(); // Scramble: team id to the shot in progress
+  private _pendingScrambleChoice: { team: GolfTeam; candidates: ScrambleCandidate[]; timeout: ReturnType<typeof setTimeout> } | undefined;
   private _holes: GolfHole[] = [];
-  private _golfBall: GolfBallEntity | undefined;
+  private _cups: GolfCupManager;
+  private _wind: WindSettings | undefined;
+  private _turnToken: number = 0; // Invalidates pending settle checks when the turn changes
+  private _shotClock: ShotClock | undefined;
+  private _shotClockTimers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // Player id to running clock
+  private _entityListeners: Map<string, { shot: (payload: GolfShotPayload) => void; activity: () => void }> = new Map(); // Removed when a player leaves
+  private _shotRecorder: ShotRecorder = new ShotRecorder();
+  private _replays: Map<string, GhostBallEntity> = new Map(); // Player id to the replay they're watching
   
   // Audio
   private _holeInOneAudio: Audio | undefined;
   private _gameStartAudio: Audio | undefined;
   private _gameEndAudio: Audio | undefined;
 
-  constructor(world: World) {
+  constructor(world: World, course: GolfCourse, roundHistory?: RoundHistoryStore, cups?: GolfCupManager) {
     this._world = world;
-    this._setupDefaultCourse();
+    this._course = course;
+    this._roundHistory = roundHistory;
+    this._cups = cups ?? new GolfCupManager(world);
+    this._holes = course.holes;
     this._setupAudio();
+
+    console.log(`Set up golf course ${course.name} with ${this._holes.length} holes`);
   }
 
   /**
@@ -64,12 +256,25 @@ export default class GolfGameManager {
     const playerScore: PlayerScore = {
       player,
       golfEntity,
+      golfBall: undefined,
       strokes: [],
+      penalties: [],
       totalStrokes: 0,
+      points: [],
+      totalPoints: 0,
+      handicapIndex: undefined,
+      courseHandicap: 0,
+      handicapStrokes: [],
       currentHole: 0,
+      holedOut: false,
+      lastStrokePosition: undefined,
+      pendingRelief: undefined,
+      estimatedHoles: [],
     };
 
     this._players.set(player.id, playerScore);
+    this._applyHandicap(playerScore);
+    this._cameraDirector.addWatcher(player, golfEntity);
     
     // Set up player event listeners
     this._setupPlayerEvents(golfEntity);
@@ -84,10 +289,31 @@ export default class GolfGameManager {
    * Remove a player from the golf game
    */
   public removePlayer(player: Player): void {
+    const playerScore = this._players.get(player.id);
+    if (playerScore) {
+      this._removeGolfBall(playerScore);
+    }
+    this._stopReplay(player);
+    this._cameraDirector.removeWatcher(player);
+
+    // The player may be moving to another group's game, so stop listening to them
+    const listeners = this._entityListeners.get(player.id);
+    if (playerScore && listeners) {
+      playerScore.golfEntity.off('golf-shot', listeners.shot);
+      playerScore.golfEntity.off('golf-activity', listeners.activity);
+      this._entityListeners.delete(player.id);
+    }
+    this._stopShotClock(player.id);
+    if (playerScore?.golfEntity.isPlayerTurn()) {
+      playerScore.golfEntity.endTurn();
+    }
+
+    const wasCurrentPlayer = this._simultaneous || this._currentPlayerId === player.id;
     this._players.delete(player.id);
     
     // If it was current player's turn, advance to next player
-    if (this._gameInProgress && this._getCurrentPlayer()?.player.id === player.id) {
+    if (this._gameInProgress && wasCurrentPlayer) {
+      this._currentPlayerId = undefined;
       this._nextPlayerTurn();
     }
     
@@ -95,29 +321,133 @@ export default class GolfGameManager {
     this._broadcastGameState();
   }
 
+  /**
+   * Let someone watch the game without playing
+   */
+  public addSpectator(player: Player, entity: Entity): void {
+    this._spectators.set(player.id, player);
+    this._cameraDirector.addWatcher(player, entity);
+
+    console.log(`${player.username} is spectating the golf game`);
+    this._broadcastGameState();
+  }
+
+  /**
+   * Stop a spectator watching
+   */
+  public removeSpectator(player: Player): void {
+    if (!this._spectators.delete(player.id)) return;
+
+    this._stopReplay(player);
+    this._cameraDirector.removeWatcher(player);
+    console.log(`${player.username} stopped spectating the golf game`);
+  }
+
+  /**
+   * Watch the round's last or best shot again with a ghost ball.
+   * Returns the shot, or undefined if there's none yet or it's the player's turn.
+   */
+  public replayShot(player: Player, choice: ReplayChoice): ShotRecording | undefined {
+    const shot = this.getReplayShot(choice);
+    if (!shot || this._players.get(player.id)?.golfEntity.isPlayerTurn()) return undefined;
+
+    this._stopReplay(player);
+    const ghost = new GhostBallEntity(shot, { name: `Replay ${shot.id}` });
+    this._replays.set(player.id, ghost);
+
+    ghost.play(this._world, () => {
+      if (this._replays.get(player.id) !== ghost) return;
+
+      this._replays.delete(player.id);
+      this._cameraDirector.endReplay(player);
+    });
+    this._cameraDirector.showReplay(player, ghost);
+
+    const message = `🎬 ${player.username} is watching a replay: ${this._describeShot(shot)}`;
+    [...Array.from(this._players.values()).map(playerScore => playerScore.player), ...this._spectators.values()].forEach(other => {
+      this._world.chatManager.sendPlayerMessage(other, message, 'FFFFFF');
+    });
+    return shot;
+  }
+
+  /**
+   * The round's last or best shot
+   */
+  public getReplayShot(choice: ReplayChoice): ShotRecording | undefined {
+    return choice === 'best' ? this._shotRecorder.getBestShot() : this._shotRecorder.getLastShot();
+  }
+
+  /**
+   * Send the last or best shot to the player's HUD as JSON to share
+   */
+  public exportReplayShot(player: Player, choice: ReplayChoice): boolean {
+    const shot = this.getReplayShot(choice);
+    if (!shot) return false;
+
+    player.ui.sendData({
+      type: 'golf-replay-export',
+      title: this._describeShot(shot),
+      json: exportShot(shot),
+    });
+    return true;
+  }
+
+  /**
+   * Choose where a player's or spectator's camera goes between shots
+   */
+  public setCameraView(player: Player, view: SpectatorView): boolean {
+    // Don't pull the camera away from a player lining up their shot
+    const onTurn = this._players.get(player.id)?.golfEntity.isPlayerTurn() ?? false;
+    return this._cameraDirector.setView(player, view, !onTurn);
+  }
+
   /**
    * Start a new golf game
    */
-  public startGame(): void {
+  public startGame(mode: GolfGameMode = 'stroke-play', options: GolfGameOptions = {}): boolean {
     if (this._players.size === 0) {
       console.warn('Cannot start golf game - no players');
-      return;
+      return false;
+    }
+
+    if (mode === 'match-play' && this._players.size < 2) {
+      console.warn('Cannot start match play - needs at least two players');
+      return false;
+    }
+
+    // Scramble and alternate shot share balls between teammates, so they need turns
+    if (options.simultaneous && (mode === 'scramble' || mode === 'alternate-shot')) {
+      console.warn(`Cannot play ${mode} simultaneously`);
+      return false;
     }
 
     this._gameInProgress = true;
+    this._mode = mode;
+    this._simultaneous = options.simultaneous ?? false;
+    this._strokeCap = options.strokeCap ?? DEFAULT_STROKE_CAP;
+    this._shotClock = options.shotClock && options.shotClock.seconds !== 0 ? new ShotClock(options.shotClock) : undefined;
+    this._stopShotClocks();
+    this._shotRecorder.clear();
+    this._match = mode === 'match-play' ? new MatchPlay(this._createMatchSides(), this._holes.length) : undefined;
+    this._stableford = mode === 'stableford' ? createStablefordConfig(options.stableford) : undefined;
+    this._teamPlay = TEAM_FORMATS.includes(mode) ? new TeamPlay(mode as TeamFormat, this._createTeams()) : undefined;
+    this._clearPendingScrambleChoice();
     this._currentHole = 0;
-    this._currentPlayerIndex = 0;
+    this._currentPlayerId = undefined;
 
     // Reset all player scores
     this._players.forEach(playerScore => {
       playerScore.strokes = [];
+      playerScore.penalties = [];
+      playerScore.estimatedHoles = [];
       playerScore.totalStrokes = 0;
+      playerScore.points = [];
+      playerScore.totalPoints = 0;
       playerScore.currentHole = 0;
+      playerScore.holedOut = false;
+      this._applyHandicap(playerScore);
     });
 
-    // Create golf ball for the game
-    this._createGolfBall();
-
     // Start first hole
     this._startHole(0);
 
@@ -126,8 +456,9 @@ export default class GolfGameManager {
       this._gameStartAudio.play(this._world);
     }
 
-    console.log('Golf game started!');
+    console.log(`Golf game started (${mode}${this._simultaneous ? ', simultaneous' : ''})!`);
     this._broadcastGameState();
+    return true;
   }
 
   /**
@@ -137,25 +468,59 @@ export default class GolfGameManager {
     if (!this._gameInProgress) return;
 
     this._gameInProgress = false;
+    this._turnToken++;
 
     // End current player's turn
     const currentPlayer = this._getCurrentPlayer();
     if (currentPlayer) {
       currentPlayer.golfEntity.endTurn();
     }
+    this._currentPlayerId = undefined;
+
+    // Pick up all balls and the cup
+    this._clearPendingScrambleChoice();
+    this._stopShotClocks();
+    this._players.forEach(playerScore => this._removeGolfBall(playerScore));
+    this._removeCup();
+    this._wind = undefined;
 
     // Calculate final scores and winner
     const finalScores = this._calculateFinalScores();
-    const winner = finalScores[0]; // Lowest score wins
+    const winner = finalScores[0]; // Lowest score (or most Stableford points) wins
+    if (!winner) return;
+
+    const netWinner = [...finalScores].sort((a, b) => this._getNetStrokes(a) - this._getNetStrokes(b))[0] ?? winner;
+    const matchStatus = this._match?.getStatus();
+    const teamStandings = this._teamPlay?.getStandings();
+    const winnerName = matchStatus
+      ? matchStatus.leaderName ?? 'Match halved'
+      : teamStandings?.[0]?.name ?? winner.player.username;
+
+    const previousRecord = this._getCourseRecord();
+    this._saveRound(finalScores);
+    const courseRecord = this._announceCourseRecord(previousRecord);
 
-    // Broadcast final results
+    // Broadcast final results, and each player's own stats
     this._players.forEach(playerScore => {
+      playerScore.player.ui.sendData({
+        type: 'golf-round-stats',
+        stats: this._getRoundStats(playerScore),
+      });
+
       playerScore.player.ui.sendData({
         type: 'golf-game-end',
-        winner: winner.player.username,
+        winner: winnerName,
+        netWinner: netWinner.player.username,
+        match: matchStatus,
+        teams: teamStandings,
+        courseRecord,
         finalScores: finalScores.map(score => ({
           playerName: score.player.username,
           totalStrokes: score.totalStrokes,
+          netStrokes: this._getNetStrokes(score),
+          points: this._stableford ? score.totalPoints : undefined,
+          handicapIndex: score.handicapIndex,
+          courseHandicap: score.courseHandicap,
           strokes: score.strokes,
         })),
       });
@@ -166,7 +531,194 @@ export default class GolfGameManager {
       this._gameEndAudio.play(this._world);
     }
 
-    console.log(`Golf game ended! Winner: ${winner.player.username} with ${winner.totalStrokes} strokes`);
+    console.log(`Golf game ended! Winner: ${winnerName}`);
+  }
+
+  /**
+   * Take one of the offered penalty relief options
+   */
+  public chooseRelief(player: Player, optionId: string): boolean {
+    const playerScore = this._players.get(player.id);
+    const option = playerScore?.pendingRelief?.find(relief => relief.id === optionId);
+    if (!playerScore || !option) return false;
+
+    playerScore.pendingRelief = undefined;
+    this._createGolfBall(playerScore, option.position);
+    player.ui.lockPointer(true);
+
+    player.ui.sendData({
+      type: 'golf-relief-taken',
+      option: option.id,
+      message: `${option.label} - ball dropped.`,
+    });
+
+    console.log(`${player.username} took relief: ${option.label}`);
+
+    // Relief doesn't change the order of play - farthest from the hole goes next
+    if (this._isActivePlayer(playerScore)) {
+      playerScore.golfEntity.endTurn();
+      this._nextPlayerTurn();
+    }
+
+    return true;
+  }
+
+  /**
+   * Handle data sent from a player's HUD
+   */
+  public handlePlayerUIData(player: Player, data: GolfUIMessage): void {
+    switch (data.type) {
+      case 'golf-relief-choice':
+        this.chooseRelief(player, data.option);
+        break;
+      case 'golf-history-request':
+        this.sendPlayerHistory(player);
+        break;
+      case 'golf-course-leaderboard-request':
+        this.sendCourseLeaderboard(player);
+        break;
+      case 'golf-pick-up':
+        this.pickUp(player);
+        break;
+      case 'golf-scramble-choice':
+        this.chooseScrambleBall(player, data.playerId);
+        break;
+      case 'golf-replay':
+        if (!this.replayShot(player, data.shot)) {
+          player.ui.sendData({ type: 'golf-message', message: 'No shot to replay yet - or it\'s your turn to play' });
+        }
+        break;
+      case 'golf-replay-export':
+        if (!this.exportReplayShot(player, data.shot)) {
+          player.ui.sendData({ type: 'golf-message', message: 'No shot to share yet' });
+        }
+        break;
+      case 'golf-concede':
+        if (data.concession === 'putt') this.concedePutt(player);
+        if (data.concession === 'hole') this.concedeHole(player);
+        break;
+    }
+  }
+
+  /**
+   * Choose a team to play on in the next team game (undefined to be paired up automatically)
+   */
+  public setPlayerTeam(player: Player, teamName: string | undefined): void {
+    if (teamName) {
+      this._teamAssignments.set(player.id, teamName);
+    } else {
+      this._teamAssignments.delete(player.id);
+    }
+  }
+
+  /**
+   * Choose which teammate's ball a scramble team plays from, by player id or username
+   */
+  public chooseScrambleBall(player: Player, ballOwner: string): boolean {
+    const pending = this._pendingScrambleChoice;
+    const candidate = pending?.candidates.find(option =>
+      option.playerId === ballOwner ||
+      this._players.get(option.playerId)?.player.username.toLowerCase() === ballOwner.toLowerCase());
+    if (!pending || !candidate || !pending.team.members.some(member => member.id === player.id)) return false;
+
+    this._applyScrambleChoice(pending.team, candidate, player.username);
+    this._nextPlayerTurn();
+    return true;
+  }
+
+  /**
+   * Pick up on a hole where the player can no longer score (Stableford)
+   */
+  public pickUp(player: Player): boolean {
+    const playerScore = this._players.get(player.id);
+    const hole = this._holes[this._currentHole];
+    if (!this._gameInProgress || !this._stableford || !playerScore || !hole || playerScore.holedOut) return false;
+    if (playerScore.golfBall?.isMoving() || playerScore.pendingRelief) return false;
+
+    const strokesTaken = playerScore.golfEntity.getScore();
+    const handicapStrokes = playerScore.handicapStrokes[this._currentHole] ?? 0;
+    if (!canPickUp(strokesTaken, hole.par, handicapStrokes, this._stableford)) return false;
+
+    this._finishHole(playerScore, getPickUpStrokes(strokesTaken, hole.par, handicapStrokes), true);
+    return true;
+  }
+
+  /**
+   * Concede the current player's next putt (match play, opponents only)
+   */
+  public concedePutt(player: Player): boolean {
+    const currentPlayer = this._getCurrentPlayer();
+    const concedingSide = this._match?.getSideForPlayer(player.id);
+    if (!this._gameInProgress || !currentPlayer || !concedingSide) return false;
+
+    // Only the other side can concede a putt, and only once the ball is at rest on the green
+    const golfBall = currentPlayer.golfBall;
+    if (concedingSide.playerIds.includes(currentPlayer.player.id)) return false;
+    if (!golfBall?.isSpawned || golfBall.isMoving() || golfBall.getLie() !== 'green') return false;
+
+    this._sendMatchMessage(`${player.username} conceded ${currentPlayer.player.username}'s putt`);
+    currentPlayer.golfEntity.addConcededStroke();
+    this._handleBallInHole(currentPlayer);
+
+    return true;
+  }
+
+  /**
+   * Concede the current hole to the other side (match play)
+   */
+  public concedeHole(player: Player): boolean {
+    const concedingSide = this._match?.getSideForPlayer(player.id);
+    if (!this._gameInProgress || !this._match || !concedingSide || this._match.hasResult(this._currentHole)) return false;
+
+    this._match.concedeHole(this._currentHole, concedingSide.id);
+    this._sendMatchMessage(`${concedingSide.name} conceded hole ${this._currentHole + 1}`);
+
+    // Nobody plays on once the hole is given away
+    this._turnToken++;
+    this._stopShotClocks();
+    this._players.forEach(playerScore => {
+      if (playerScore.golfEntity.isPlayerTurn()) {
+        playerScore.golfEntity.endTurn();
+      }
+      if (!playerScore.holedOut) {
+        this._recordEstimatedScore(playerScore, this._currentHole, playerScore.golfEntity.getScore(), playerScore.golfEntity.getPenaltyStrokes());
+      }
+      playerScore.holedOut = true;
+      playerScore.pendingRelief = undefined;
+      this._removeGolfBall(playerScore);
+    });
+
+    this._completeHole();
+    return true;
+  }
+
+  /**
+   * Send a player their recent rounds and personal bests
+   */
+  public sendPlayerHistory(player: Player, limit: number = 5): void {
+    player.ui.sendData({
+      type: 'golf-round-history',
+      rounds: this._roundHistory?.getPlayerRounds(player.id, limit) ?? [],
+      personalBests: this._roundHistory?.getPersonalBests(player.id),
+      handicapIndex: this._roundHistory?.getHandicapIndex(player.id),
+    });
+  }
+
+  /**
+   * Send the all-time leaderboard for a course (this one by default) to the player's HUD
+   */
+  public sendCourseLeaderboard(player: Player, courseId: string = this._course.id, mode?: GolfGameMode): CourseLeaderboard | undefined {
+    const leaderboard = this._roundHistory?.getCourseLeaderboard(courseId, mode);
+
+    player.ui.sendData({ type: 'golf-course-leaderboard', leaderboard });
+    return leaderboard;
+  }
+
+  /**
+   * Get the store completed rounds are saved to
+   */
+  public getRoundHistory(): RoundHistoryStore | undefined {
+    return this._roundHistory;
   }
 
   /**
@@ -175,49 +727,113 @@ export default class GolfGameManager {
   public getGameState() {
     return {
       inProgress: this._gameInProgress,
+      courseName: this._course.name,
       currentHole: this._currentHole + 1, // Display as 1-indexed
       totalHoles: this._holes.length,
-      currentPlayer: this._getCurrentPlayer()?.player.username,
-      leaderboard: this._calculateCurrentLeaderboard(),
+      currentPlayer: this._simultaneous ? 'Everyone' : this._getCurrentPlayer()?.player.username,
+      wind: this._getWindInfo(),
+      mode: this._mode,
+      simultaneous: this._simultaneous,
+      stableford: this._stableford,
+      match: this._match?.getStatus(),
+      teams: this._teamPlay?.getStandings(),
+      shotClock: this._shotClock?.seconds ?? 0,
+      awayPlayers: Array.from(this._players.values()).filter(playerScore => this._isAfk(playerScore)).map(playerScore => playerScore.player.username),
+      leaderboard: this._match ? undefined : this._calculateCurrentLeaderboard(),
     };
   }
 
   /**
-   * Create a golf ball for the game
+   * Create a player's golf ball for the current hole and tee it up
    */
-  private _createGolfBall(): void {
-    if (this._golfBall?.isSpawned) {
-      this._golfBall.despawn();
-    }
+  private _createGolfBall(playerScore: PlayerScore, position: Vector3Like): GolfBallEntity {
+    this._removeGolfBall(playerScore);
+
+    const golfBall = new GolfBallEntity({ name: `Golf Ball ${playerScore.player.username}` });
 
-    this._golfBall = new GolfBallEntity();
+    // Look up who holds the ball each time, as alternate shot passes it between teammates
+    const owner = () => this._getBallOwner(golfBall) ?? playerScore;
     
     // Set up ball event listeners
-    this._golfBall.on('ball-in-hole', () => this._handleBallInHole());
-    this._golfBall.on('ball-in-water', () => this._handleWaterHazard());
+    golfBall.on('ball-in-hole', () => this._handleBallInHole(owner()));
+    golfBall.on('ball-in-water', ({ position }) => this._handleWaterHazard(owner(), position));
+    golfBall.on('ball-landed', ({ position }) => {
+      this._shotRecorder.markLanding(owner().player.id, position);
+      this._cameraDirector.showLanding(golfBall, position);
+    });
+    golfBall.on(EntityEvent.TICK, () => {
+      this._shotRecorder.addSample(owner().player.id, golfBall.position);
+      this._checkOutOfBounds(owner(), golfBall);
+    });
+
+    golfBall.setWind(this._wind);
+    golfBall.spawn(this._world, position);
+    golfBall.setPassThrough(this._simultaneous);
+    playerScore.golfBall = golfBall;
     
-    console.log('Golf ball created');
+    console.log(`Golf ball created for ${playerScore.player.username}`);
+    return golfBall;
+  }
+
+  /**
+   * Find the player currently playing a ball
+   */
+  private _getBallOwner(golfBall: GolfBallEntity): PlayerScore | undefined {
+    return Array.from(this._players.values()).find(playerScore => playerScore.golfBall === golfBall);
+  }
+
+  /**
+   * Pick up a player's golf ball
+   */
+  private _removeGolfBall(playerScore: PlayerScore): void {
+    this._cameraDirector.releaseBall(playerScore.golfBall);
+    this._shotRecorder.cancel(playerScore.player.id);
+    if (playerScore.golfBall?.isSpawned) {
+      playerScore.golfBall.despawn();
+    }
+    playerScore.golfBall = undefined;
+  }
+
+  /**
+   * Play to the cup on a hole (shared with any other group on the same hole)
+   */
+  private _spawnCup(hole: GolfHole): void {
+    this._cups.claimCup(this, hole);
+  }
+
+  /**
+   * Leave the current cup, which comes out once no other group is playing to it
+   */
+  private _removeCup(): void {
+    this._cups.releaseCup(this);
   }
 
   /**
    * Start a specific hole
    */
   private _startHole(holeIndex: number): void {
-    if (holeIndex >= this._holes.length) {
-      this._endGame();
+    const hole = this._holes[holeIndex];
+    if (!hole) {
+      this.endGame();
       return;
     }
 
     this._currentHole = holeIndex;
-    const hole = this._holes[holeIndex];
-
-    // Place ball at tee position
-    if (this._golfBall) {
-      this._golfBall.spawn(this._world, hole.teePosition);
-    }
+    this._currentPlayerId = undefined;
+    this._wind = hole.wind ?? createRandomWind();
+    this._spawnCup(hole);
+    this._cameraDirector.setHole(hole);
 
-    // Reset player turn index for new hole
-    this._currentPlayerIndex = 0;
+    // Everyone starts the hole from the tee with a fresh card
+    this._players.forEach(playerScore => {
+      this._removeGolfBall(playerScore);
+      playerScore.holedOut = false;
+      playerScore.currentHole = holeIndex;
+      playerScore.lastStrokePosition = undefined;
+      playerScore.pendingRelief = undefined;
+      playerScore.golfEntity.startHole();
+    });
+    this._startTeamHole(hole, holeIndex);
 
     // Broadcast hole start to all players
     this._players.forEach(playerScore => {
@@ -228,36 +844,81 @@ export default class GolfGameManager {
         par: hole.par,
         teePosition: hole.teePosition,
         holePosition: hole.holePosition,
+        wind: this._getWindInfo(),
       });
     });
 
     // Start first player's turn
-    this._startPlayerTurn();
+    this._nextPlayerTurn();
 
     console.log(`Started hole ${holeIndex + 1}: ${hole.name} (Par ${hole.par})`);
   }
 
   /**
-   * Start current player's turn
+   * Describe the current hole's wind for the HUD
    */
-  private _startPlayerTurn(): void {
-    const currentPlayer = this._getCurrentPlayer();
-    if (!currentPlayer) return;
+  private _getWindInfo() {
+    const hole = this._holes[this._currentHole];
+    if (!this._wind || !hole) return undefined;
 
-    // End previous player's turn
-    this._players.forEach(playerScore => {
-      if (playerScore !== currentPlayer) {
-        playerScore.golfEntity.endTurn();
-      }
-    });
+    return {
+      direction: this._wind.direction,
+      speed: this._wind.speed,
+      gust: this._wind.gust ?? 0,
+      relativeDirection: getRelativeWindDirection(this._wind, hole.teePosition, hole.holePosition),
+    };
+  }
+
+  /**
+   * Start a player's turn, teeing up their ball if they haven't hit yet
+   */
+  private _startPlayerTurn(currentPlayer: PlayerScore): void {
+    // In simultaneous play everyone has their own turn, so nobody else's ends
+    if (!this._simultaneous) {
+      this._currentPlayerId = currentPlayer.player.id;
+      this._turnToken++;
+
+      // End previous player's turn
+      this._players.forEach(playerScore => {
+        if (playerScore !== currentPlayer && playerScore.golfEntity.isPlayerTurn()) {
+          playerScore.golfEntity.endTurn();
+        }
+      });
+    }
 
     // Set ball for current player
-    if (this._golfBall) {
-      currentPlayer.golfEntity.setGolfBall(this._golfBall);
+    const hole = this._holes[this._currentHole];
+    this._prepareTeamBall(currentPlayer);
+
+    const golfBall = currentPlayer.golfBall?.isSpawned || !hole
+      ? currentPlayer.golfBall
+      : this._createGolfBall(currentPlayer, hole.teePosition);
+
+    if (golfBall) {
+      currentPlayer.golfEntity.setGolfBall(golfBall);
+    }
+
+    // Pull the flag for putts, put it back for shots from off the green
+    // (left alone when everyone is playing at once)
+    if (!this._simultaneous) {
+      this._cups.setFlagPulled(this, golfBall?.getLie() === 'green');
     }
 
     // Start current player's turn
+    this._cameraDirector.releasePlayer(currentPlayer.player);
     currentPlayer.golfEntity.startTurn();
+    this._startShotClock(currentPlayer);
+
+    // Let players who can no longer score on this hole pick up
+    if (this._stableford && hole && canPickUp(
+      currentPlayer.golfEntity.getScore(),
+      hole.par,
+      currentPlayer.handicapStrokes[this._currentHole] ?? 0,
+      this._stableford,
+    )) {
+      currentPlayer.player.ui.sendData({ type: 'golf-pick-up-available' });
+      this._world.chatManager.sendPlayerMessage(currentPlayer.player, '⛳ Nothing more to gain on this hole - type /pickup to pick up', 'FFFF00');
+    }
 
     // Broadcast turn change
     this._broadcastGameState();
@@ -266,137 +927,1182 @@ export default class GolfGameManager {
   }
 
   /**
-   * Advance to next player's turn
+   * Advance to the next player's turn: the player farthest from the hole goes next
    */
   private _nextPlayerTurn(): void {
+    if (!this._gameInProgress || this._pendingScrambleChoice) return;
+
+    if (this._simultaneous) {
+      this._continueSimultaneousPlay();
+      return;
+    }
+
     // Check if ball is still moving
-    if (this._golfBall?.isMoving()) {
+    const currentPlayer = this._getCurrentPlayer();
+    if (currentPlayer?.golfBall?.isMoving()) {
       // Wait for ball to stop before advancing turn
       setTimeout(() => this._nextPlayerTurn(), 100);
       return;
     }
 
-    this._currentPlayerIndex = (this._currentPlayerIndex + 1) % this._players.size;
-    this._startPlayerTurn();
+    // Scramble teams that have all hit choose their ball before anyone plays on
+    if (this._resolveScrambleShots()) return;
+
+    const nextPlayer = this._selectNextPlayer();
+    if (!nextPlayer) {
+      // Anyone left is away: pick them up, then the hole is done
+      if (this._pickUpAfkPlayers()) {
+        this._nextPlayerTurn();
+        return;
+      }
+
+      this._completeHole();
+      return;
+    }
+
+    this._startPlayerTurn(nextPlayer);
   }
 
   /**
-   * Handle ball entering the hole
+   * Simultaneous play: give everyone whose ball is at rest their next shot,
+   * pick up anyone at the stroke cap, and finish the hole once all are done
    */
-  private _handleBallInHole(): void {
-    if (!this._gameInProgress) return;
-
-    const currentPlayer = this._getCurrentPlayer();
-    if (!currentPlayer) return;
-
+  private _continueSimultaneousPlay(): void {
     const hole = this._holes[this._currentHole];
-    const strokes = currentPlayer.golfEntity.getScore();
-
-    // Record score
-    currentPlayer.strokes[this._currentHole] = strokes;
-    currentPlayer.totalStrokes += strokes;
+    const remaining = Array.from(this._players.values()).filter(playerScore => !playerScore.holedOut);
 
-    // Determine score type
-    let scoreType = 'par';
-    let scoreMessage = `Par ${hole.par}`;
+    if (!hole || remaining.length === 0) {
+      this._completeHole();
+      return;
+    }
 
-    if (strokes === 1) {
-      scoreType = 'hole-in-one';
-      scoreMessage = 'HOLE IN ONE!';
-      if (this._holeInOneAudio) {
-        this._holeInOneAudio.play(this._world);
-      }
-    } else if (strokes < hole.par) {
-      const under = hole.par - strokes;
-      scoreType = under === 1 ? 'birdie' : under === 2 ? 'eagle' : 'albatross';
-      scoreMessage = scoreType.toUpperCase();
-    } else if (strokes > hole.par) {
-      const over = strokes - hole.par;
-      scoreType = over === 1 ? 'bogey' : over === 2 ? 'double-bogey' : 'triple-bogey+';
-      scoreMessage = `+${over} ${scoreType.toUpperCase()}`;
+    // Picking up the last players finishes the hole by itself
+    if (remaining.every(playerScore => this._isAfk(playerScore))) {
+      this._pickUpAfkPlayers();
+      return;
     }
 
-    // Broadcast hole completion
-    this._players.forEach(playerScore => {
-      playerScore.player.ui.sendData({
-        type: 'golf-hole-complete',
-        player: currentPlayer.player.username,
-        strokes,
-        par: hole.par,
-        scoreType,
-        scoreMessage,
-        holeNumber: this._currentHole + 1,
-      });
-    });
+    remaining.forEach(playerScore => {
+      if (playerScore.holedOut || playerScore.pendingRelief || this._isAfk(playerScore)) return;
+      if (playerScore.golfEntity.isPlayerTurn() || playerScore.golfBall?.isMoving()) return;
 
-    console.log(`${currentPlayer.player.username} completed hole ${this._currentHole + 1} in ${strokes} strokes (${scoreMessage})`);
+      if (playerScore.golfEntity.getScore() >= this._strokeCap) {
+        this._world.chatManager.sendPlayerMessage(playerScore.player, `⛳ Stroke cap of ${this._strokeCap} reached - picking up`, 'FF8800');
+        this._finishHole(playerScore, this._strokeCap, true);
+        return;
+      }
 
-    // Move to next hole after delay
-    setTimeout(() => {
-      this._startHole(this._currentHole + 1);
-    }, 3000); // 3 second delay to show results
+      this._startPlayerTurn(playerScore);
+    });
   }
 
   /**
-   * Handle ball going into water hazard
+   * Pick who plays next, as in stroke play: players still on the tee go first
+   * in order of honor (best score on the previous hole), then the ball
+   * farthest from the hole is played
    */
-  private _handleWaterHazard(): void {
-    const currentPlayer = this._getCurrentPlayer();
-    if (!currentPlayer) return;
+  private _selectNextPlayer(): PlayerScore | undefined {
+    if (this._teamPlay?.getFormat() === 'alternate-shot') return this._selectAlternateShotPlayer();
+    if (this._teamPlay?.getFormat() === 'scramble') return this._selectScramblePlayer();
 
-    // Add penalty stroke
-    currentPlayer.golfEntity['_shotCount']++; // Access private property (in real implementation, add public method)
+    const remaining = Array.from(this._players.values())
+      .filter(playerScore => !playerScore.holedOut && !playerScore.pendingRelief && !this._isAfk(playerScore));
 
-    // Reset ball to safe position (simplified - should be drop zone)
-    const hole = this._holes[this._currentHole];
-    if (this._golfBall) {
-      this._golfBall.resetToPosition(hole.teePosition);
+    const onTee = remaining.filter(playerScore => !playerScore.golfBall?.isSpawned);
+    if (onTee.length > 0) {
+      const previousHole = this._currentHole - 1;
+      return onTee.sort((a, b) => (a.strokes[previousHole] ?? 0) - (b.strokes[previousHole] ?? 0))[0];
     }
 
-    // Notify player
-    currentPlayer.player.ui.sendData({
-      type: 'golf-penalty',
-      type_penalty: 'water',
-      message: 'Water hazard! +1 penalty stroke. Ball placed back at tee.',
-    });
-
-    console.log(`${currentPlayer.player.username} hit into water hazard - penalty stroke`);
+    return remaining.sort((a, b) => this._getDistanceToHole(b) - this._getDistanceToHole(a))[0];
   }
 
   /**
-   * Set up event listeners for a golf player entity
+   * Distance from a player's ball to the current hole
    */
-  private _setupPlayerEvents(golfEntity: GolfPlayerEntity): void {
-    golfEntity.on('golf-shot', () => {
-      // After a shot, wait for ball to stop then advance turn
-      setTimeout(() => {
-        if (!this._golfBall?.isMoving()) {
-          this._nextPlayerTurn();
-        }
-      }, 1000); // Give ball time to settle
-    });
+  private _getDistanceToHole(playerScore: PlayerScore): number {
+    const hole = this._holes[this._currentHole];
+    const ballPosition = playerScore.golfBall?.isSpawned ? playerScore.golfBall.position : hole?.teePosition;
+    return ballPosition ? this._getDistanceFromHole(ballPosition) : 0;
   }
 
   /**
-   * Get current active player
+   * Distance from a position to the current hole
    */
-  private _getCurrentPlayer(): PlayerScore | undefined {
-    const players = Array.from(this._players.values());
-    return players[this._currentPlayerIndex];
+  private _getDistanceFromHole(position: Vector3Like): number {
+    const hole = this._holes[this._currentHole];
+    if (!hole) return 0;
+
+    return Math.sqrt(
+      (position.x - hole.holePosition.x) ** 2 +
+      (position.y - hole.holePosition.y) ** 2 +
+      (position.z - hole.holePosition.z) ** 2
+    );
   }
 
   /**
-   * Calculate current leaderboard
+   * Wait for a player's ball to come to rest after a shot, then pass the turn on
+   */
+  private _waitForBallToSettle(playerScore: PlayerScore, turnToken: number): void {
+    if (turnToken !== this._turnToken || playerScore.holedOut || playerScore.pendingRelief) return;
+
+    if (playerScore.golfBall?.isMoving()) {
+      setTimeout(() => this._waitForBallToSettle(playerScore, turnToken), 100);
+      return;
+    }
+
+    this._recordShotResult(playerScore, playerScore.golfBall?.getLie());
+    this._cameraDirector.releaseBall(playerScore.golfBall);
+    this._nextPlayerTurn();
+  }
+
+  /**
+   * Move on once every player has holed out
+   */
+  private _completeHole(): void {
+    this._currentPlayerId = undefined;
+    this._recordMatchHole();
+    this._recordTeamScores();
+    this._broadcastGameState();
+
+    // Move to next hole after delay, unless the match has already been won
+    const holeIndex = this._currentHole;
+    setTimeout(() => {
+      if (this._gameInProgress && this._currentHole === holeIndex) {
+        if (this._match?.isDecided()) {
+          this.endGame();
+          return;
+        }
+
+        this._startHole(holeIndex + 1);
+      }
+    }, 3000); // 3 second delay to show results
+  }
+
+  /**
+   * Score a hole a player didn't play out the way handicaps do: one more than the
+   * strokes taken on a conceded hole, or net par on a hole they never started
+   */
+  private _recordEstimatedScore(playerScore: PlayerScore, holeIndex: number, strokesTaken: number, penalties: number): void {
+    const hole = this._holes[holeIndex];
+    if (!hole || playerScore.strokes[holeIndex] !== undefined) return;
+
+    const strokes = strokesTaken > 0 ? strokesTaken + 1 : hole.par + (playerScore.handicapStrokes[holeIndex] ?? 0);
+    playerScore.strokes[holeIndex] = strokes;
+    playerScore.penalties[holeIndex] = penalties;
+    playerScore.totalStrokes += strokes;
+    playerScore.estimatedHoles.push(holeIndex);
+  }
+
+  /**
+   * Split players into two match play sides, alternating in the order they joined
+   */
+  private _createMatchSides(): [MatchSide, MatchSide] {
+    const players = Array.from(this._players.values()).map(playerScore => playerScore.player);
+    const sidePlayers = [
+      players.filter((_, index) => index % 2 === 0),
+      players.filter((_, index) => index % 2 === 1),
+    ];
+
+    const [first, second] = sidePlayers.map((members, index): MatchSide => ({
+      id: `side-${index + 1}`,
+      name: members.map(member => member.username).join(' & '),
+      playerIds: members.map(member => member.id),
+    }));
+
+    return [first!, second!];
+  }
+
+  /**
+   * Settle the hole for match play: each side's best net score counts
+   */
+  private _recordMatchHole(): void {
+    if (!this._match || this._match.hasResult(this._currentHole)) return;
+
+    const holeIndex = this._currentHole;
+    const scores: Record<string, number | undefined> = {};
+
+    this._match.getSides().forEach(side => {
+      const netScores = side.playerIds
+        .map(playerId => this._players.get(playerId))
+        .filter((playerScore): playerScore is PlayerScore => playerScore?.strokes[holeIndex] !== undefined)
+        .map(playerScore => playerScore.strokes[holeIndex]! - (playerScore.handicapStrokes[holeIndex] ?? 0));
+
+      scores[side.id] = netScores.length > 0 ? Math.min(...netScores) : undefined;
+    });
+
+    const result = this._match.recordHole(holeIndex, scores);
+    const winner = this._match.getSides().find(side => side.id === result.winner);
+    this._sendMatchMessage(winner ? `${winner.name} won hole ${holeIndex + 1}` : `Hole ${holeIndex + 1} halved`);
+  }
+
+  /**
+   * Tell everyone about a match play result or concession, with the standings
+   */
+  private _sendMatchMessage(message: string): void {
+    const status = this._match?.getStatus();
+
+    this._players.forEach(playerScore => {
+      playerScore.player.ui.sendData({
+        type: 'golf-match-update',
+        message,
+        match: status,
+      });
+
+      this._world.chatManager.sendPlayerMessage(playerScore.player, `🤝 ${message} - ${status?.description ?? ''}`, '00FFFF');
+    });
+  }
+
+  /**
+   * Put players into teams for a team format, using any teams they picked
+   */
+  private _createTeams(): GolfTeam[] {
+    const members = Array.from(this._players.values())
+      .map(playerScore => ({ id: playerScore.player.id, username: playerScore.player.username }));
+
+    return createTeams(members, this._teamAssignments);
+  }
+
+  /**
+   * Team members still in the game
+   */
+  private _getTeamMembers(team: GolfTeam): PlayerScore[] {
+    return team.members
+      .map(member => this._players.get(member.id))
+      .filter((playerScore): playerScore is PlayerScore => !!playerScore);
+  }
+
+  /**
+   * Reset team turn state at the start of a hole
+   */
+  private _startTeamHole(hole: GolfHole, holeIndex: number): void {
+    this._nextHitters.clear();
+    this._scrambleShots.clear();
+    this._clearPendingScrambleChoice();
+    if (!this._teamPlay) return;
+
+    this._teamPlay.getTeams().forEach(team => {
+      if (this._teamPlay?.getFormat() === 'alternate-shot') {
+        const teeShotPlayer = this._teamPlay.getTeeShotPlayer(team, holeIndex);
+        if (teeShotPlayer) {
+          this._nextHitters.set(team.id, teeShotPlayer);
+        }
+      } else if (this._teamPlay?.getFormat() === 'scramble') {
+        this._scrambleShots.set(team.id, { spot: { ...hole.teePosition }, hit: new Set(), strokes: 0, penalties: 0 });
+      }
+    });
+  }
+
+  /**
+   * Give a player the ball they play in a team format: the team's ball in
+   * alternate shot, or a ball at the team's spot in a scramble
+   */
+  private _prepareTeamBall(playerScore: PlayerScore): void {
+    const team = this._teamPlay?.getTeamForPlayer(playerScore.player.id);
+    if (!team) return;
+
+    if (this._teamPlay?.getFormat() === 'alternate-shot') {
+      const holder = this._getTeamMembers(team).find(member => member !== playerScore && member.golfBall?.isSpawned);
+      if (holder) {
+        playerScore.golfBall = holder.golfBall;
+        playerScore.lastStrokePosition = holder.lastStrokePosition;
+        holder.golfBall = undefined;
+      }
+      return;
+    }
+
+    const scramble = this._scrambleShots.get(team.id);
+    if (scramble && !scramble.hit.has(playerScore.player.id) && !playerScore.golfBall?.isSpawned) {
+      this._createGolfBall(playerScore, scramble.spot);
+    }
+  }
+
+  /**
+   * Note a team member's shot: who hits next in alternate shot, who has hit in a scramble
+   */
+  private _recordTeamShot(playerScore: PlayerScore): void {
+    const team = this._teamPlay?.getTeamForPlayer(playerScore.player.id);
+    if (!team) return;
+
+    if (this._teamPlay?.getFormat() === 'alternate-shot') {
+      const nextHitter = this._teamPlay.getNextHitter(team, playerScore.player.id);
+      if (nextHitter) {
+        this._nextHitters.set(team.id, nextHitter);
+      }
+    } else if (this._teamPlay?.getFormat() === 'scramble') {
+      this._scrambleShots.get(team.id)?.hit.add(playerScore.player.id);
+    }
+  }
+
+  /**
+   * Alternate shot: the team farthest from the hole plays next, with whoever's turn it is to hit
+   */
+  private _selectAlternateShotPlayer(): PlayerScore | undefined {
+    const teams = (this._teamPlay?.getTeams() ?? []).filter(team => {
+      const members = this._getTeamMembers(team);
+      return members.length > 0 && !members.some(member => member.holedOut || member.pendingRelief);
+    });
+
+    const hitters = teams.flatMap(team => {
+      const members = this._getTeamMembers(team);
+      const holder = members.find(member => member.golfBall?.isSpawned);
+
+      // A teammate covers for a partner who is away
+      const nextHitter = this._players.get(this._nextHitters.get(team.id) ?? '');
+      const hitter = nextHitter && !this._isAfk(nextHitter) ? nextHitter : members.find(member => !this._isAfk(member));
+      if (!hitter) return [];
+
+      return [{ hitter, distance: holder ? this._getDistanceToHole(holder) : this._getDistanceToHole(hitter) }];
+    });
+
+    return hitters.sort((a, b) => b.distance - a.distance)[0]?.hitter;
+  }
+
+  /**
+   * Scramble: a team that has started hitting from its spot finishes first,
+   * otherwise the team farthest from the hole plays next
+   */
+  private _selectScramblePlayer(): PlayerScore | undefined {
+    const teams = (this._teamPlay?.getTeams() ?? [])
+      .filter(team => this._scrambleShots.has(team.id) && !this._getTeamMembers(team).some(member => member.holedOut))
+      .sort((a, b) => {
+        const aShot = this._scrambleShots.get(a.id)!;
+        const bShot = this._scrambleShots.get(b.id)!;
+        return (bShot.hit.size > 0 ? 1 : 0) - (aShot.hit.size > 0 ? 1 : 0)
+          || this._getDistanceFromHole(bShot.spot) - this._getDistanceFromHole(aShot.spot);
+      });
+
+    for (const team of teams) {
+      const scramble = this._scrambleShots.get(team.id)!;
+      const hitter = this._getTeamMembers(team).find(member => !scramble.hit.has(member.player.id) && !this._isAfk(member));
+      if (hitter) return hitter;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Once a scramble team has all hit, settle which ball it plays next.
+   * Returns true while the team is choosing.
+   */
+  private _resolveScrambleShots(): boolean {
+    if (this._teamPlay?.getFormat() !== 'scramble') return false;
+
+    for (const team of this._teamPlay.getTeams()) {
+      const scramble = this._scrambleShots.get(team.id);
+      const members = this._getTeamMembers(team);
+      const waitingOn = members.filter(member => !scramble?.hit.has(member.player.id) && !this._isAfk(member));
+      if (!scramble || scramble.hit.size === 0 || waitingOn.length > 0 || members.some(member => member.holedOut)) continue;
+
+      const candidates: ScrambleCandidate[] = members
+        .filter(member => member.golfBall?.isSpawned)
+        .map(member => ({
+          playerId: member.player.id,
+          position: { ...member.golfBall!.position },
+          distanceToHole: this._getDistanceToHole(member),
+        }));
+
+      // Every ball was lost: a stroke and a penalty, then everyone plays again from the same spot
+      if (candidates.length === 0) {
+        scramble.strokes += 2;
+        scramble.penalties += 1;
+        scramble.hit.clear();
+        this._sendTeamMessage(team, `${team.name} lost every ball - +1 penalty stroke, play again from the same spot`);
+        continue;
+      }
+
+      if (candidates.length === 1) {
+        this._applyScrambleChoice(team, candidates[0]!);
+        continue;
+      }
+
+      this._offerScrambleChoice(team, candidates);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Let a scramble team choose its ball, taking the one nearest the hole if nobody chooses in time
+   */
+  private _offerScrambleChoice(team: GolfTeam, candidates: ScrambleCandidate[]): void {
+    const recommended = pickScrambleBall(candidates)!;
+    const timeout = setTimeout(() => {
+      if (this._pendingScrambleChoice?.team !== team) return;
+
+      this._applyScrambleChoice(team, recommended);
+      this._nextPlayerTurn();
+    }, SCRAMBLE_CHOICE_TIME_MS);
+
+    this._pendingScrambleChoice = { team, candidates, timeout };
+    this._getCurrentPlayer()?.golfEntity.endTurn();
+    this._currentPlayerId = undefined;
+
+    const options = candidates.map(candidate => ({
+      playerId: candidate.playerId,
+      username: this._players.get(candidate.playerId)?.player.username ?? candidate.playerId,
+      distanceToHole: Math.round(candidate.distanceToHole),
+    }));
+
+    this._getTeamMembers(team).forEach(member => {
+      member.player.ui.lockPointer(false);
+      member.player.ui.sendData({
+        type: 'golf-scramble-options',
+        team: team.name,
+        options,
+        recommended: recommended.playerId,
+        timeLimitMs: SCRAMBLE_CHOICE_TIME_MS,
+      });
+
+      this._world.chatManager.sendPlayerMessage(
+        member.player,
+        `🏌️ Pick your ball: /pick ${options.map(option => `${option.username} (${option.distanceToHole}m)`).join(' | ')}`,
+        '00FF00',
+      );
+    });
+
+    this._broadcastGameState();
+  }
+
+  /**
+   * Play a scramble team on from the chosen ball: everyone picks up and drops at that spot
+   */
+  private _applyScrambleChoice(team: GolfTeam, candidate: ScrambleCandidate, chosenBy?: string): void {
+    const scramble = this._scrambleShots.get(team.id);
+    if (!scramble) return;
+
+    if (this._pendingScrambleChoice?.team === team) {
+      this._clearPendingScrambleChoice();
+    }
+
+    scramble.strokes++;
+    scramble.spot = candidate.position;
+    scramble.hit.clear();
+
+    const ballOwner = this._players.get(candidate.playerId)?.player.username ?? candidate.playerId;
+    this._getTeamMembers(team).forEach(member => {
+      this._removeGolfBall(member);
+      member.lastStrokePosition = candidate.position;
+      member.player.ui.lockPointer(true);
+      member.player.ui.sendData({
+        type: 'golf-scramble-picked',
+        team: team.name,
+        ballOwner,
+        chosenBy,
+        strokes: scramble.strokes,
+      });
+    });
+
+    this._sendTeamMessage(team, `${team.name} play on from ${ballOwner}'s ball${chosenBy ? ` (picked by ${chosenBy})` : ''}`);
+  }
+
+  /**
+   * Drop any scramble ball choice that is waiting on a team
+   */
+  private _clearPendingScrambleChoice(): void {
+    if (this._pendingScrambleChoice) {
+      clearTimeout(this._pendingScrambleChoice.timeout);
+      this._pendingScrambleChoice = undefined;
+    }
+  }
+
+  /**
+   * Tell a team something in chat
+   */
+  private _sendTeamMessage(team: GolfTeam, message: string): void {
+    this._getTeamMembers(team).forEach(member => {
+      this._world.chatManager.sendPlayerMessage(member.player, `👥 ${message}`, '00FFFF');
+    });
+  }
+
+  /**
+   * Best ball: put each team's best score on its card, then show every team the standings
+   */
+  private _recordTeamScores(): void {
+    if (!this._teamPlay) return;
+
+    const holeIndex = this._currentHole;
+    if (this._teamPlay.getFormat() === 'best-ball') {
+      this._teamPlay.getTeams().forEach(team => {
+        const score = this._teamPlay!.getBestBallScore(this._getTeamMembers(team).map(member => member.strokes[holeIndex]));
+        if (score !== undefined) {
+          this._teamPlay!.recordTeamHole(team.id, holeIndex, score);
+        }
+      });
+    }
+
+    const teams = this._teamPlay.getStandings();
+    this._players.forEach(playerScore => {
+      playerScore.player.ui.sendData({
+        type: 'golf-team-scorecard',
+        holeNumber: holeIndex + 1,
+        format: this._teamPlay?.getFormat(),
+        teams,
+      });
+    });
+  }
+
+  /**
+   * Handle ball entering the hole
+   */
+  private _handleBallInHole(currentPlayer: PlayerScore): void {
+    this._recordShotResult(currentPlayer, 'holed');
+    const team = this._teamPlay?.getTeamForPlayer(currentPlayer.player.id);
+
+    // Scramble and alternate shot teams hole out together on one team score
+    if (team && this._teamPlay?.getFormat() === 'scramble') {
+      const strokes = (this._scrambleShots.get(team.id)?.strokes ?? 0) + 1;
+      this._finishTeamHole(team, strokes);
+      return;
+    }
+
+    if (team && this._teamPlay?.getFormat() === 'alternate-shot') {
+      const strokes = this._getTeamMembers(team).reduce((total, member) => total + member.golfEntity.getScore(), 0);
+      this._finishTeamHole(team, strokes);
+      return;
+    }
+
+    this._finishHole(currentPlayer, currentPlayer.golfEntity.getScore());
+  }
+
+  /**
+   * Record a player's score for the hole, whether holed out or picked up
+   */
+  private _finishHole(currentPlayer: PlayerScore, strokes: number, pickedUp: boolean = false): void {
+    if (!this._gameInProgress || currentPlayer.holedOut) return;
+
+    const hole = this._holes[this._currentHole];
+    if (!hole) return;
+
+    // Record score
+    this._stopShotClock(currentPlayer.player.id);
+    currentPlayer.strokes[this._currentHole] = strokes;
+    currentPlayer.penalties[this._currentHole] = currentPlayer.golfEntity.getPenaltyStrokes();
+    currentPlayer.totalStrokes += strokes;
+    currentPlayer.holedOut = true;
+    if (pickedUp) {
+      currentPlayer.estimatedHoles.push(this._currentHole);
+    }
+    this._removeGolfBall(currentPlayer);
+
+    // Stableford points, off net strokes if the event uses them
+    const points = this._stableford
+      ? getStablefordPoints(strokes, hole.par, currentPlayer.handicapStrokes[this._currentHole] ?? 0, this._stableford)
+      : undefined;
+    if (points !== undefined) {
+      currentPlayer.points[this._currentHole] = points;
+      currentPlayer.totalPoints += points;
+    }
+
+    // Determine score type
+    const scoreType = pickedUp ? 'picked-up' : getScoreType(strokes, hole.par);
+    let scoreMessage = pickedUp ? 'PICKED UP' : this._getScoreMessage(strokes, hole);
+
+    if (points !== undefined) {
+      scoreMessage += ` - ${points} ${points === 1 ? 'point' : 'points'}`;
+    }
+
+    // Broadcast hole completion
+    this._players.forEach(playerScore => {
+      playerScore.player.ui.sendData({
+        type: 'golf-hole-complete',
+        player: currentPlayer.player.username,
+        strokes,
+        par: hole.par,
+        scoreType,
+        scoreMessage,
+        points,
+        holeNumber: this._currentHole + 1,
+      });
+    });
+
+    console.log(`${currentPlayer.player.username} completed hole ${this._currentHole + 1} in ${strokes} strokes (${scoreMessage})`);
+
+    // Whoever is farthest away plays next, or the hole is finished
+    if (this._isActivePlayer(currentPlayer)) {
+      currentPlayer.golfEntity.endTurn();
+      this._nextPlayerTurn();
+    }
+  }
+
+  /**
+   * Record a team score for the hole on every member's card (scramble and alternate shot)
+   */
+  private _finishTeamHole(team: GolfTeam, strokes: number, pickedUp: boolean = false): void {
+    const hole = this._holes[this._currentHole];
+    const members = this._getTeamMembers(team);
+    if (!this._gameInProgress || !this._teamPlay || !hole || members.every(member => member.holedOut)) return;
+
+    const holeIndex = this._currentHole;
+    const penalties = this._teamPlay.getFormat() === 'scramble'
+      ? this._scrambleShots.get(team.id)?.penalties ?? 0
+      : members.reduce((total, member) => total + member.golfEntity.getPenaltyStrokes(), 0);
+    const wasPlaying = members.some(member => member.player.id === this._currentPlayerId);
+
+    this._teamPlay.recordTeamHole(team.id, holeIndex, strokes);
+    members.forEach(member => {
+      this._stopShotClock(member.player.id);
+      member.strokes[holeIndex] = strokes;
+      member.penalties[holeIndex] = penalties;
+      member.totalStrokes += strokes;
+      member.holedOut = true;
+      member.pendingRelief = undefined;
+      if (pickedUp) {
+        member.estimatedHoles.push(holeIndex);
+      }
+      this._removeGolfBall(member);
+      if (member.golfEntity.isPlayerTurn()) {
+        member.golfEntity.endTurn();
+      }
+    });
+
+    const scoreType = pickedUp ? 'picked-up' : getScoreType(strokes, hole.par);
+    const scoreMessage = pickedUp ? 'PICKED UP' : this._getScoreMessage(strokes, hole);
+
+    this._players.forEach(playerScore => {
+      playerScore.player.ui.sendData({
+        type: 'golf-hole-complete',
+        player: team.name,
+        strokes,
+        par: hole.par,
+        scoreType,
+        scoreMessage,
+        holeNumber: holeIndex + 1,
+      });
+    });
+
+    console.log(`${team.name} completed hole ${holeIndex + 1} in ${strokes} strokes (${scoreMessage})`);
+
+    if (wasPlaying) {
+      this._nextPlayerTurn();
+    }
+  }
+
+  /**
+   * Describe a hole score, celebrating holes in one
+   */
+  private _getScoreMessage(strokes: number, hole: GolfHole): string {
+    const scoreType = getScoreType(strokes, hole.par);
+
+    if (scoreType === 'hole-in-one') {
+      if (this._holeInOneAudio) {
+        this._holeInOneAudio.play(this._world);
+      }
+      return 'HOLE IN ONE!';
+    }
+
+    if (strokes < hole.par) return scoreType.toUpperCase();
+    if (strokes > hole.par) return `+${strokes - hole.par} ${scoreType.toUpperCase()}`;
+    return `Par ${hole.par}`;
+  }
+
+  /**
+   * Handle ball going into water hazard: one penalty stroke, then the
+   * player picks where to drop
+   */
+  private _handleWaterHazard(currentPlayer: PlayerScore, waterPosition: Vector3Like): void {
+    if (!this._gameInProgress || currentPlayer.pendingRelief || currentPlayer.holedOut) return;
+    this._recordShotResult(currentPlayer, 'water');
+
+    // A scramble team just plays one of its other balls
+    if (this._teamPlay?.getFormat() === 'scramble') {
+      this._loseScrambleBall(currentPlayer, 'Water hazard! That ball is out of the scramble.');
+      return;
+    }
+
+    const hole = this._holes[this._currentHole];
+    if (!hole) return;
+
+    // The ball is lost in the water
+    this._removeGolfBall(currentPlayer);
+
+    // Add penalty stroke
+    currentPlayer.golfEntity.addPenaltyStrokes(1, 'water');
+
+    // Offer relief options
+    const options = this._getWaterReliefOptions(currentPlayer, hole, waterPosition);
+    currentPlayer.pendingRelief = options;
+    currentPlayer.player.ui.lockPointer(false);
+
+    currentPlayer.player.ui.sendData({
+      type: 'golf-penalty',
+      type_penalty: 'water',
+      message: 'Water hazard! +1 penalty stroke. Choose where to drop.',
+    });
+
+    currentPlayer.player.ui.sendData({
+      type: 'golf-relief-options',
+      options: options.map(option => ({ id: option.id, label: option.label })),
+    });
+
+    this._world.chatManager.sendPlayerMessage(
+      currentPlayer.player,
+      `💦 Water hazard! Type /drop ${options.map(option => option.id).join(' | ')} to take relief`,
+      '00BFFF',
+    );
+
+    this._startShotClock(currentPlayer);
+
+    console.log(`${currentPlayer.player.username} hit into water hazard - penalty stroke`);
+  }
+
+  /**
+   * Check whether a ball has left the hole's in-bounds volume or fallen off the course
+   */
+  private _checkOutOfBounds(playerScore: PlayerScore, golfBall: GolfBallEntity): void {
+    if (!this._gameInProgress || !golfBall.isSpawned || golfBall !== playerScore.golfBall) return;
+
+    const hole = this._holes[this._currentHole];
+    if (!hole) return;
+
+    const { x, y, z } = golfBall.position;
+    const { min, max } = hole.bounds;
+    const inBounds = x >= min.x && x <= max.x && y >= min.y && y <= max.y && z >= min.z && z <= max.z;
+
+    if (!inBounds || y < hole.killHeight) {
+      this._recordShotResult(playerScore, 'out-of-bounds');
+      this._handleOutOfBounds(playerScore, hole);
+    }
+  }
+
+  /**
+   * Handle ball going out of bounds: stroke and distance from the previous lie
+   */
+  private _handleOutOfBounds(currentPlayer: PlayerScore, hole: GolfHole): void {
+    if (this._teamPlay?.getFormat() === 'scramble') {
+      this._loseScrambleBall(currentPlayer, 'Out of bounds! That ball is out of the scramble.');
+      return;
+    }
+
+    this._removeGolfBall(currentPlayer);
+
+    // Add penalty stroke and replay from where the last stroke was played
+    currentPlayer.golfEntity.addPenaltyStrokes(1, 'out-of-bounds');
+    this._createGolfBall(currentPlayer, currentPlayer.lastStrokePosition ?? hole.teePosition);
+
+    // Notify player
+    currentPlayer.player.ui.sendData({
+      type: 'golf-penalty',
+      type_penalty: 'out-of-bounds',
+      message: 'Out of bounds! +1 penalty stroke. Replay from your previous spot.',
+    });
+
+    console.log(`${currentPlayer.player.username} hit out of bounds - stroke and distance`);
+
+    // Farthest from the hole plays next
+    if (this._isActivePlayer(currentPlayer)) {
+      currentPlayer.golfEntity.endTurn();
+      this._nextPlayerTurn();
+    }
+  }
+
+  /**
+   * Scramble: a lost ball costs nothing, the team plays on from one of its other balls
+   */
+  private _loseScrambleBall(currentPlayer: PlayerScore, message: string): void {
+    this._removeGolfBall(currentPlayer);
+
+    currentPlayer.player.ui.sendData({
+      type: 'golf-penalty',
+      type_penalty: 'scramble-lost-ball',
+      message,
+    });
+
+    console.log(`${currentPlayer.player.username} lost a scramble ball`);
+
+    if (currentPlayer.player.id === this._currentPlayerId) {
+      currentPlayer.golfEntity.endTurn();
+      this._nextPlayerTurn();
+    }
+  }
+
+  /**
+   * Work out the relief options for a ball that entered water at a position
+   */
+  private _getWaterReliefOptions(playerScore: PlayerScore, hole: GolfHole, waterPosition: Vector3Like): ReliefOption[] {
+    const options: ReliefOption[] = [{
+      id: 'replay',
+      label: 'Replay from previous spot',
+      position: { ...(playerScore.lastStrokePosition ?? hole.teePosition) },
+    }];
+
+    // Back on the line: keep the entry point between the hole and the drop
+    const fromHoleX = waterPosition.x - hole.holePosition.x;
+    const fromHoleZ = waterPosition.z - hole.holePosition.z;
+    const fromHoleLength = Math.sqrt(fromHoleX ** 2 + fromHoleZ ** 2) || 1;
+    for (let distance = 1; distance <= 30; distance++) {
+      const position = this._getDropPosition({
+        x: waterPosition.x + (fromHoleX / fromHoleLength) * distance,
+        y: waterPosition.y,
+        z: waterPosition.z + (fromHoleZ / fromHoleLength) * distance,
+      });
+
+      if (position) {
+        options.push({ id: 'back-on-line', label: 'Drop back on the line', position });
+        break;
+      }
+    }
+
+    // Lateral: within two club lengths of the entry point, no nearer the hole
+    let lateralPosition: Vector3Like | undefined;
+    let lateralDistanceToHole = Infinity;
+    for (let angle = 0; angle < 360; angle += 22.5) {
+      for (let radius = LATERAL_RELIEF_DISTANCE; radius > 0; radius -= CLUB_LENGTH / 2) {
+        const candidate = {
+          x: waterPosition.x + Math.cos(angle * Math.PI / 180) * radius,
+          y: waterPosition.y,
+          z: waterPosition.z + Math.sin(angle * Math.PI / 180) * radius,
+        };
+        const distanceToHole = Math.sqrt((candidate.x - hole.holePosition.x) ** 2 + (candidate.z - hole.holePosition.z) ** 2);
+        if (distanceToHole < fromHoleLength || distanceToHole >= lateralDistanceToHole) continue;
+
+        const position = this._getDropPosition(candidate);
+        if (position) {
+          lateralPosition = position;
+          lateralDistanceToHole = distanceToHole;
+        }
+      }
+    }
+
+    if (lateralPosition) {
+      options.push({ id: 'lateral', label: 'Lateral drop', position: lateralPosition });
+    }
+
+    return options;
+  }
+
+  /**
+   * Find where a ball dropped at a position would come to rest, if the ground there is dry
+   */
+  private _getDropPosition(position: Vector3Like): Vector3Like | undefined {
+    const ground = sampleGround(this._world, { x: position.x, y: position.y + 3, z: position.z }, 8);
+    if (!ground || ground.surface === 'water') return undefined;
+
+    return { x: position.x, y: ground.surfaceY + DROP_HEIGHT, z: position.z };
+  }
+
+  /**
+   * Set up event listeners for a golf player entity
+   */
+  private _setupPlayerEvents(golfEntity: GolfPlayerEntity): void {
+    const onShot = ({ fromPosition, club, power, lie, auto }: GolfShotPayload) => {
+      const playerScore = this._players.get(golfEntity.player.id);
+      if (!playerScore || playerScore.holedOut || !this._isActivePlayer(playerScore)) return;
+
+      // Auto-putts from the shot clock don't count as the player being back
+      this._stopShotClock(playerScore.player.id);
+      if (!auto) {
+        this._shotClock?.recordShot(playerScore.player.id);
+      }
+
+      playerScore.lastStrokePosition = fromPosition;
+      this._recordTeamShot(playerScore);
+
+      this._shotRecorder.start({
+        playerId: playerScore.player.id,
+        playerName: playerScore.player.username,
+        holeNumber: this._currentHole + 1,
+        strokeNumber: golfEntity.getScore(),
+        club: club.name,
+        power: Math.round((power / golfEntity.maxPower) * 100),
+        startLie: lie,
+        startSurface: sampleGround(this._world, fromPosition)?.surface,
+        from: fromPosition,
+      });
+
+      // Everyone not lining up a shot of their own watches this one
+      if (playerScore.golfBall) {
+        const busyPlayerIds = Array.from(this._players.values())
+          .filter(other => other === playerScore || other.golfEntity.isPlayerTurn())
+          .map(other => other.player.id);
+        this._cameraDirector.followBall(playerScore.golfBall, busyPlayerIds);
+      }
+
+      // Simultaneous play: no more shots until this ball comes to rest
+      if (this._simultaneous) {
+        playerScore.golfEntity.endTurn();
+      }
+
+      // After a shot, wait for ball to stop then advance turn
+      const turnToken = this._turnToken;
+      setTimeout(() => this._waitForBallToSettle(playerScore, turnToken), 1000); // Give ball time to settle
+    };
+
+    // Players who were away rejoin the rotation as soon as they touch the controls
+    const onActivity = () => {
+      const playerScore = this._players.get(golfEntity.player.id);
+      if (!playerScore || !this._shotClock?.markActive(playerScore.player.id)) return;
+
+      this._world.chatManager.sendPlayerMessage(playerScore.player, '👋 Welcome back - you\'re back in the rotation', '00FF88');
+      this._broadcastGameState();
+
+      if (this._gameInProgress && (this._simultaneous || !this._currentPlayerId)) {
+        this._nextPlayerTurn();
+      }
+    };
+
+    golfEntity.on('golf-shot', onShot);
+    golfEntity.on('golf-activity', onActivity);
+    this._entityListeners.set(golfEntity.player.id, { shot: onShot, activity: onActivity });
+  }
+
+  /**
+   * Finish recording a player's shot where their ball ended up, and tell them how far it went
+   */
+  private _recordShotResult(playerScore: PlayerScore, result: ShotResult | undefined): void {
+    const ball = playerScore.golfBall;
+    if (!ball?.isSpawned || !result) return;
+
+    const surface = sampleGround(this._world, ball.position)?.surface;
+    const shot = this._shotRecorder.finish(playerScore.player.id, result, ball.position, surface);
+    if (!shot) return;
+
+    playerScore.player.ui.sendData({
+      type: 'golf-shot-measured',
+      club: shot.club,
+      startSurface: shot.startSurface,
+      endSurface: shot.endSurface,
+      result: shot.endLie,
+      ...measureShot(shot),
+    });
+  }
+
+  /**
+   * A player's fairways, greens, putts and sand saves for the round
+   */
+  private _getRoundStats(playerScore: PlayerScore): RoundStats {
+    const shots = this._shotRecorder.getShots().filter(shot => shot.playerId === playerScore.player.id);
+
+    return calculateRoundStats(
+      shots,
+      this._holes.map(hole => hole.par),
+      playerScore.strokes,
+      this._holes.map((_, holeIndex) => playerScore.penalties[holeIndex] ?? 0),
+    );
+  }
+
+  /**
+   * Stop the replay a player is watching
+   */
+  private _stopReplay(player: Player): void {
+    const ghost = this._replays.get(player.id);
+    if (!ghost) return;
+
+    this._replays.delete(player.id);
+    if (ghost.isSpawned) {
+      ghost.despawn();
+    }
+    this._cameraDirector.endReplay(player);
+  }
+
+  /**
+   * Describe a recorded shot, e.g. "Alice's 7 Iron from the fairway on hole 2, 142m"
+   */
+  private _describeShot(shot: ShotRecording): string {
+    const result = shot.endLie === 'holed' ? ' - holed!' : '';
+    return `${shot.playerName}'s ${shot.club} from the ${shot.startLie} on hole ${shot.holeNumber}, ${Math.round(getShotDistance(shot))}m${result}`;
+  }
+
+  /**
+   * Start the shot clock on a player's turn, and show everyone the countdown
+   */
+  private _startShotClock(playerScore: PlayerScore): void {
+    if (!this._shotClock) return;
+
+    const playerId = playerScore.player.id;
+    this._stopShotClock(playerId);
+    this._shotClockTimers.set(playerId, setTimeout(() => this._handleShotClockExpired(playerScore), this._shotClock.seconds * 1000));
+
+    this._players.forEach(other => {
+      other.player.ui.sendData({
+        type: 'golf-shot-clock',
+        player: playerScore.player.username,
+        isYou: other === playerScore,
+        seconds: this._shotClock?.seconds,
+      });
+    });
+  }
+
+  /**
+   * Stop a player's shot clock
+   */
+  private _stopShotClock(playerId: string): void {
+    const timer = this._shotClockTimers.get(playerId);
+    if (!timer) return;
+
+    clearTimeout(timer);
+    this._shotClockTimers.delete(playerId);
+
+    const playerScore = this._players.get(playerId);
+    this._players.forEach(other => {
+      other.player.ui.sendData({
+        type: 'golf-shot-clock',
+        player: playerScore?.player.username,
+        isYou: other === playerScore,
+        seconds: 0,
+      });
+    });
+  }
+
+  /**
+   * Stop every running shot clock
+   */
+  private _stopShotClocks(): void {
+    Array.from(this._shotClockTimers.keys()).forEach(playerId => this._stopShotClock(playerId));
+  }
+
+  /**
+   * Out of time: take the first relief option if one is waiting, then auto-putt
+   * on the green, take a penalty stroke elsewhere, or skip a player who is away
+   */
+  private _handleShotClockExpired(playerScore: PlayerScore): void {
+    this._shotClockTimers.delete(playerScore.player.id);
+    const hole = this._holes[this._currentHole];
+    if (!this._gameInProgress || !this._shotClock || !hole || playerScore.holedOut || !this._players.has(playerScore.player.id)) return;
+    if (!playerScore.pendingRelief && !playerScore.golfEntity.isPlayerTurn()) return;
+
+    const { player } = playerScore;
+    const reliefOption = playerScore.pendingRelief?.[0];
+    const onGreen = !reliefOption && playerScore.golfBall?.getLie() === 'green';
+    const action = this._shotClock.recordTimeout(player.id, onGreen);
+    console.log(`${player.username} ran out of time (${action})`);
+
+    this._sendAfkNotice(playerScore, action);
+
+    // Relief nobody chose is taken with the first option, and play moves on
+    if (reliefOption) {
+      this._world.chatManager.sendPlayerMessage(player, `⏱️ Out of time - ${reliefOption.label.toLowerCase()}`, 'FF8800');
+      this.chooseRelief(player, reliefOption.id);
+      return;
+    }
+
+    if (action === 'auto-putt' && playerScore.golfEntity.autoPutt(hole.holePosition)) {
+      this._world.chatManager.sendPlayerMessage(player, '⏱️ Out of time - putting for you', 'FF8800');
+      return;
+    }
+
+    if (action === 'penalty') {
+      playerScore.golfEntity.addPenaltyStrokes(SHOT_CLOCK_PENALTY_STROKES, 'shot-clock');
+    }
+
+    // Taking turns, the ball is still where it was, so the player keeps the shot on a
+    // fresh clock (simultaneous play hands it back after checking the stroke cap)
+    if (keepsShotAfterTimeout(action) && !this._simultaneous && this._isActivePlayer(playerScore)) {
+      this._world.chatManager.sendPlayerMessage(player, `⏱️ Out of time - +${SHOT_CLOCK_PENALTY_STROKES} penalty stroke, still your shot`, 'FF8800');
+      this._startShotClock(playerScore);
+      return;
+    }
+
+    if (action === 'penalty') {
+      this._world.chatManager.sendPlayerMessage(player, `⏱️ Out of time - +${SHOT_CLOCK_PENALTY_STROKES} penalty stroke`, 'FF8800');
+    }
+
+    if (this._isActivePlayer(playerScore)) {
+      playerScore.golfEntity.endTurn();
+      this._nextPlayerTurn();
+    }
+  }
+
+  /**
+   * Tell the group a player who ran out of time too often is being skipped
+   */
+  private _sendAfkNotice(playerScore: PlayerScore, action: ShotClockAction): void {
+    if (action !== 'afk') return;
+
+    this._players.forEach(other => {
+      this._world.chatManager.sendPlayerMessage(other.player, `💤 ${playerScore.player.username} is away and will be skipped until they're back`, 'FFFF00');
+    });
+    this._broadcastGameState();
+  }
+
+  /**
+   * Check whether a player is being skipped for being away
+   */
+  private _isAfk(playerScore: PlayerScore): boolean {
+    return this._shotClock?.isAfk(playerScore.player.id) ?? false;
+  }
+
+  /**
+   * Pick up everyone still on the hole who is away, at the stroke cap.
+   * Returns true if anyone was picked up.
+   */
+  private _pickUpAfkPlayers(): boolean {
+    const afkPlayers = Array.from(this._players.values())
+      .filter(playerScore => !playerScore.holedOut && this._isAfk(playerScore));
+    if (afkPlayers.length === 0) return false;
+
+    this._currentPlayerId = undefined;
+    afkPlayers.forEach(playerScore => {
+      const team = this._teamPlay?.getTeamForPlayer(playerScore.player.id);
+      if (team && this._teamPlay?.getFormat() !== 'best-ball') {
+        this._finishTeamHole(team, this._strokeCap, true);
+      } else {
+        this._finishHole(playerScore, this._strokeCap, true);
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Whether a player's shots move the game on: anyone still on the hole in
+   * simultaneous play, otherwise only the player whose turn it is
+   */
+  private _isActivePlayer(playerScore: PlayerScore): boolean {
+    return this._simultaneous || playerScore.player.id === this._currentPlayerId;
+  }
+
+  /**
+   * Get current active player
+   */
+  private _getCurrentPlayer(): PlayerScore | undefined {
+    return this._currentPlayerId ? this._players.get(this._currentPlayerId) : undefined;
+  }
+
+  /**
+   * Calculate current leaderboard
    */
   private _calculateCurrentLeaderboard() {
     return Array.from(this._players.values())
       .map(playerScore => ({
         playerName: playerScore.player.username,
         totalStrokes: playerScore.totalStrokes,
+        netStrokes: this._getNetStrokes(playerScore),
+        points: this._stableford ? playerScore.totalPoints : undefined,
+        handicapIndex: playerScore.handicapIndex,
+        courseHandicap: playerScore.courseHandicap,
         currentHole: this._currentHole + 1,
         strokes: playerScore.strokes,
       }))
-      .sort((a, b) => a.totalStrokes - b.totalStrokes);
+      .sort((a, b) => this._stableford ? (b.points ?? 0) - (a.points ?? 0) : a.totalStrokes - b.totalStrokes);
+  }
+
+  /**
+   * Work out a player's handicap strokes for this course from their round history
+   */
+  private _applyHandicap(playerScore: PlayerScore): void {
+    const handicapIndex = this._roundHistory?.getHandicapIndex(playerScore.player.id);
+    const par = this._holes.reduce((total, hole) => total + hole.par, 0);
+
+    playerScore.handicapIndex = handicapIndex;
+    playerScore.courseHandicap = handicapIndex === undefined
+      ? 0
+      : getCourseHandicap(handicapIndex, this._course.rating, this._course.slope, par);
+    playerScore.handicapStrokes = allocateHandicapStrokes(
+      playerScore.courseHandicap,
+      this._holes.map(hole => hole.strokeIndex),
+    );
+  }
+
+  /**
+   * Net strokes over the holes a player has finished
+   */
+  private _getNetStrokes(playerScore: PlayerScore): number {
+    return playerScore.strokes.reduce(
+      (net, strokes, holeIndex) => net + strokes - (playerScore.handicapStrokes[holeIndex] ?? 0),
+      0,
+    );
   }
 
   /**
@@ -404,7 +2110,76 @@ export default class GolfGameManager {
    */
   private _calculateFinalScores() {
     return Array.from(this._players.values())
-      .sort((a, b) => a.totalStrokes - b.totalStrokes);
+      .sort((a, b) => this._stableford ? b.totalPoints - a.totalPoints : a.totalStrokes - b.totalStrokes);
+  }
+
+  /**
+   * Store the round for every player who finished all of the holes
+   */
+  private _saveRound(finalScores: PlayerScore[]): void {
+    if (!this._roundHistory) return;
+
+    // A match won before the last hole still counts; the holes it never reached are scored net par
+    const matchStatus = this._match?.getStatus();
+    if (matchStatus?.decided) {
+      finalScores.forEach(playerScore => this._holes.forEach((_, holeIndex) => this._recordEstimatedScore(playerScore, holeIndex, 0, 0)));
+    }
+
+    const finishers = finalScores.filter(playerScore =>
+      this._holes.every((_, holeIndex) => playerScore.strokes[holeIndex] !== undefined),
+    );
+    if (finishers.length === 0) return;
+
+    this._roundHistory.saveRound({
+      courseId: this._course.id,
+      courseName: this._course.name,
+      mode: this._mode,
+      pars: this._holes.map(hole => hole.par),
+      strokeIndexes: this._holes.map(hole => hole.strokeIndex),
+      courseRating: this._course.rating,
+      slopeRating: this._course.slope,
+      matchResult: matchStatus?.decided ? matchStatus.description : undefined,
+      players: finishers.map(playerScore => ({
+        playerId: playerScore.player.id,
+        username: playerScore.player.username,
+        strokes: [...playerScore.strokes],
+        penalties: this._holes.map((_, holeIndex) => playerScore.penalties[holeIndex] ?? 0),
+        totalStrokes: playerScore.totalStrokes,
+        courseHandicap: playerScore.courseHandicap,
+        stats: this._getRoundStats(playerScore),
+        estimatedHoles: playerScore.estimatedHoles.length > 0 ? [...playerScore.estimatedHoles] : undefined,
+        points: this._stableford ? this._holes.map((_, holeIndex) => playerScore.points[holeIndex] ?? 0) : undefined,
+        totalPoints: this._stableford ? playerScore.totalPoints : undefined,
+      })),
+    });
+  }
+
+  /**
+   * Best round on record for this course in this game's mode: most points in
+   * Stableford, otherwise the best gross score
+   */
+  private _getCourseRecord(): LeaderboardEntry | undefined {
+    const leaderboard = this._roundHistory?.getCourseLeaderboard(this._course.id, this._mode, 1);
+    return this._mode === 'stableford' ? leaderboard?.bestPoints[0] : leaderboard?.bestGross[0];
+  }
+
+  /**
+   * Tell the whole server when a round just saved beat the course record
+   */
+  private _announceCourseRecord(previousRecord: LeaderboardEntry | undefined): LeaderboardEntry | undefined {
+    const record = this._getCourseRecord();
+    const stableford = this._mode === 'stableford';
+    const beaten = record && previousRecord && (stableford ? record.score > previousRecord.score : record.score < previousRecord.score);
+    if (!record || !previousRecord || record.roundId === previousRecord.roundId || !beaten) return undefined;
+
+    const toPar = record.toPar === 0 ? 'E' : record.toPar > 0 ? `+${record.toPar}` : `${record.toPar}`;
+    const score = stableford ? `scored ${record.score} points` : `shot ${record.score} (${toPar})`;
+    this._world.chatManager.sendBroadcastMessage(
+      `🏆 New course record! ${record.username} ${score} on ${this._course.name}, beating ${previousRecord.username}'s ${previousRecord.score}`,
+      'FFD700',
+    );
+    console.log(`New ${this._mode} course record on ${this._course.name}: ${record.username} ${record.score}`);
+    return record;
   }
 
   /**
@@ -420,41 +2195,15 @@ export default class GolfGameManager {
         isYourTurn: this._getCurrentPlayer()?.player.id === playerScore.player.id,
       });
     });
-  }
 
-  /**
-   * Set up default golf course using existing blocks
-   */
-  private _setupDefaultCourse(): void {
-    // Create a simple 3-hole course
-    this._holes = [
-      {
-        id: 1,
-        name: 'Starter Hole',
-        par: 3,
-        teePosition: { x: -10, y: 2, z: 0 },
-        holePosition: { x: 10, y: 2, z: 0 },
-        holeRadius: 0.5,
-      },
-      {
-        id: 2,
-        name: 'Dogleg Right',
-        par: 4,
-        teePosition: { x: -15, y: 2, z: 10 },
-        holePosition: { x: 15, y: 2, z: -5 },
-        holeRadius: 0.5,
-      },
-      {
-        id: 3,
-        name: 'Long Drive',
-        par: 5,
-        teePosition: { x: 0, y: 2, z: -20 },
-        holePosition: { x: 0, y: 2, z: 25 },
-        holeRadius: 0.5,
-      },
-    ];
-
-    console.log(`Set up golf course with ${this._holes.length} holes`);
+    this._spectators.forEach(spectator => {
+      spectator.ui.sendData({
+        type: 'golf-game-state',
+        ...gameState,
+        isYourTurn: false,
+        spectating: true,
+      });
+    });
   }
 
   /**
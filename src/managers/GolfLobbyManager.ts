@@ -0,0 +1,428 @@
+/**
+ * Golf Lobby Manager - Groups playing their own games on one server
+ *
+ * Splits the server into named groups that each run their own game:
+ * - Every group has its own GolfGameManager, balls and turn state on the shared course
+ * - Groups on the same hole play to the same cup, and their balls never hit each other
+ * - Players join the clubhouse group when they arrive and can create, join and leave groups
+ * - Chat and HUD messages go to a player's own group only
+ * - A host (the creator, or first to join) starts games once everyone is ready
+ * - Without a host the group votes to end a game
+ * - Spectators can join a group to watch its game without playing
+ */
+
+import { World, Player } from 'hytopia';
+
+import GolfGameManager, { type GolfUIMessage } from './GolfGameManager.ts';
+import GolfCupManager from './GolfCupManager.ts';
+import GolfPlayerEntity from '../entities/GolfPlayerEntity.ts';
+import RoundHistoryStore from '../persistence/RoundHistoryStore.ts';
+import type { GolfCourse } from '../course/CourseData.ts';
+
+// Where players start, and where they go back to when they leave a group
+export const DEFAULT_GROUP_NAME = 'Clubhouse';
+
+export const MAX_GROUP_NAME_LENGTH = 20;
+
+export interface GolfGroupMember {
+  player: Player;
+  golfEntity: GolfPlayerEntity;
+}
+
+export interface GolfGroup {
+  name: string;
+  manager: GolfGameManager;
+  members: Map<string, GolfGroupMember>; // In the order they joined
+  spectators: Map<string, GolfGroupMember>;
+  hostId: string | undefined;            // Undefined while the host is away mid-game
+  readyIds: Set<string>;
+  endVotes: Set<string>;
+}
+
+export interface GolfGroupSummary {
+  name: string;
+  host: string | undefined; // Username
+  players: string[];        // Usernames
+  spectators: number;
+  inProgress: boolean;
+  currentHole: number;
+}
+
+export interface EndGameVote {
+  votes: number;
+  needed: number;
+  passed: boolean;
+}
+
+export default class GolfLobbyManager {
+  private _world: World;
+  private _course: GolfCourse;
+  private _roundHistory: RoundHistoryStore | undefined;
+  private _cups: GolfCupManager;                               // One cup per hole, shared by every group
+  private _groups: Map<string, GolfGroup> = new Map();       // Lower-case name to group
+  private _playerGroups: Map<string, string> = new Map();    // Player id to group key
+
+  constructor(world: World, course: GolfCourse, roundHistory?: RoundHistoryStore) {
+    this._world = world;
+    this._course = course;
+    this._roundHistory = roundHistory;
+    this._cups = new GolfCupManager(world);
+    this._createGroup(DEFAULT_GROUP_NAME);
+  }
+
+  /**
+   * Add a newly arrived player to the clubhouse group
+   */
+  public addPlayer(player: Player, golfEntity: GolfPlayerEntity): void {
+    this._joinGroup({ player, golfEntity }, this._getGroupKey(DEFAULT_GROUP_NAME));
+  }
+
+  /**
+   * Remove a player from the server's groups when they leave
+   */
+  public removePlayer(player: Player): void {
+    this._leaveCurrentGroup(player);
+  }
+
+  /**
+   * Create a new group and move the player into it
+   */
+  public createGroup(player: Player, name: string): GolfGroup | undefined {
+    const groupName = name.trim().slice(0, MAX_GROUP_NAME_LENGTH);
+    const member = this._getMember(player);
+    if (!groupName || !member || this._groups.has(this._getGroupKey(groupName))) return undefined;
+
+    const group = this._createGroup(groupName);
+    group.hostId = player.id;
+    this._joinGroup(member, this._getGroupKey(groupName));
+    return group;
+  }
+
+  /**
+   * Move the player into an existing group
+   */
+  public joinGroup(player: Player, name: string): GolfGroup | undefined {
+    const key = this._getGroupKey(name);
+    const member = this._getMember(player);
+    const alreadyPlaying = this._playerGroups.get(player.id) === key && !this.isSpectating(player);
+    if (!member || !this._groups.has(key) || alreadyPlaying) return undefined;
+
+    this._joinGroup(member, key);
+    return this._groups.get(key);
+  }
+
+  /**
+   * Move the player into a group to watch its game without playing
+   */
+  public spectateGroup(player: Player, name: string): GolfGroup | undefined {
+    const key = this._getGroupKey(name);
+    const group = this._groups.get(key);
+    const member = this._getMember(player);
+    if (!member || !group || group.spectators.has(player.id)) return undefined;
+
+    this._joinGroup(member, key, true);
+    return group;
+  }
+
+  /**
+   * Check whether a player is watching rather than playing
+   */
+  public isSpectating(player: Player): boolean {
+    return !!this.getGroupForPlayer(player)?.spectators.has(player.id);
+  }
+
+  /**
+   * Send the player back to the clubhouse group
+   */
+  public leaveGroup(player: Player): boolean {
+    const defaultKey = this._getGroupKey(DEFAULT_GROUP_NAME);
+    const member = this._getMember(player);
+    if (!member || (this._playerGroups.get(player.id) === defaultKey && !this.isSpectating(player))) return false;
+
+    this._joinGroup(member, defaultKey);
+    return true;
+  }
+
+  /**
+   * Get a group's host. A group without a host between games hands the role
+   * to whoever has been in it longest; mid-game it stays without one.
+   */
+  public getHost(group: GolfGroup): GolfGroupMember | undefined {
+    if (!group.hostId && !group.manager.getGameState().inProgress) {
+      group.hostId = group.members.keys().next().value;
+    }
+
+    return group.hostId ? group.members.get(group.hostId) : undefined;
+  }
+
+  /**
+   * Check whether a player hosts their group
+   */
+  public isHost(player: Player): boolean {
+    const group = this.getGroupForPlayer(player);
+    return !!group && this.getHost(group)?.player.id === player.id;
+  }
+
+  /**
+   * Hand the host role to another member, by username (host only)
+   */
+  public transferHost(player: Player, username: string): GolfGroupMember | undefined {
+    const group = this.getGroupForPlayer(player);
+    if (!group || !this.isHost(player)) return undefined;
+
+    const newHost = Array.from(group.members.values())
+      .find(member => member.player.username.toLowerCase() === username.toLowerCase());
+    if (!newHost || newHost.player.id === player.id) return undefined;
+
+    group.hostId = newHost.player.id;
+    this._sendGroupUpdate(group);
+    return newHost;
+  }
+
+  /**
+   * Mark a player ready (or not) for the next game
+   */
+  public setReady(player: Player, ready: boolean): void {
+    const group = this.getGroupForPlayer(player);
+    if (!group) return;
+
+    if (ready) {
+      group.readyIds.add(player.id);
+    } else {
+      group.readyIds.delete(player.id);
+    }
+    this._sendGroupUpdate(group);
+  }
+
+  /**
+   * Members the host is still waiting on before starting (the host needn't ready up)
+   */
+  public getUnreadyPlayers(player: Player): Player[] {
+    const group = this.getGroupForPlayer(player);
+    if (!group) return [];
+
+    const hostId = this.getHost(group)?.player.id;
+    return Array.from(group.members.values())
+      .filter(member => member.player.id !== hostId && !group.readyIds.has(member.player.id))
+      .map(member => member.player);
+  }
+
+  /**
+   * Clear the ready check and any end vote once the host starts a game
+   */
+  public resetReadyCheck(player: Player): void {
+    const group = this.getGroupForPlayer(player);
+    if (!group) return;
+
+    group.readyIds.clear();
+    group.endVotes.clear();
+    this._sendGroupUpdate(group);
+  }
+
+  /**
+   * Vote to end the group's game while it has no host; a majority ends it
+   */
+  public voteToEndGame(player: Player): EndGameVote | undefined {
+    const group = this.getGroupForPlayer(player);
+    if (!group || !group.manager.getGameState().inProgress || this.getHost(group)) return undefined;
+
+    group.endVotes.add(player.id);
+    return this._checkEndVote(group);
+  }
+
+  /**
+   * Find a group by name
+   */
+  public getGroup(name: string): GolfGroup | undefined {
+    return this._groups.get(this._getGroupKey(name));
+  }
+
+  /**
+   * Get the group a player is in
+   */
+  public getGroupForPlayer(player: Player): GolfGroup | undefined {
+    const key = this._playerGroups.get(player.id);
+    return key ? this._groups.get(key) : undefined;
+  }
+
+  /**
+   * Get the game manager running the player's group
+   */
+  public getManagerForPlayer(player: Player): GolfGameManager | undefined {
+    return this.getGroupForPlayer(player)?.manager;
+  }
+
+  /**
+   * List every group for the lobby
+   */
+  public getGroupSummaries(): GolfGroupSummary[] {
+    return Array.from(this._groups.values()).map(group => {
+      const gameState = group.manager.getGameState();
+
+      return {
+        name: group.name,
+        host: this.getHost(group)?.player.username,
+        players: Array.from(group.members.values()).map(member => member.player.username),
+        spectators: group.spectators.size,
+        inProgress: gameState.inProgress,
+        currentHole: gameState.currentHole,
+      };
+    });
+  }
+
+  /**
+   * Route HUD data to the player's group
+   */
+  public handlePlayerUIData(player: Player, data: GolfUIMessage): void {
+    this.getManagerForPlayer(player)?.handlePlayerUIData(player, data);
+  }
+
+  /**
+   * Send a chat message to everyone in a player's group, spectators included
+   */
+  public sendGroupMessage(player: Player, message: string, color?: string): void {
+    const group = this.getGroupForPlayer(player);
+    if (!group) return;
+
+    [...group.members.values(), ...group.spectators.values()].forEach(member => {
+      this._world.chatManager.sendPlayerMessage(member.player, message, color);
+    });
+  }
+
+  private _createGroup(name: string): GolfGroup {
+    const group: GolfGroup = {
+      name,
+      manager: new GolfGameManager(this._world, this._course, this._roundHistory, this._cups),
+      members: new Map(),
+      spectators: new Map(),
+      hostId: undefined,
+      readyIds: new Set(),
+      endVotes: new Set(),
+    };
+
+    this._groups.set(this._getGroupKey(name), group);
+    console.log(`Created golf group ${name}`);
+    return group;
+  }
+
+  /**
+   * Move a player into a group, taking them out of their current one
+   */
+  private _joinGroup(member: GolfGroupMember, key: string, spectating: boolean = false): void {
+    const group = this._groups.get(key);
+    if (!group) return;
+
+    this._leaveCurrentGroup(member.player);
+    this._playerGroups.set(member.player.id, key);
+
+    if (spectating) {
+      group.spectators.set(member.player.id, member);
+      group.manager.addSpectator(member.player, member.golfEntity);
+    } else {
+      group.members.set(member.player.id, member);
+      group.manager.addPlayer(member.player, member.golfEntity);
+    }
+
+    member.player.ui.sendData({
+      type: 'golf-group-joined',
+      group: group.name,
+      players: Array.from(group.members.values()).map(other => other.player.username),
+      inProgress: group.manager.getGameState().inProgress,
+      spectating,
+    });
+    this._sendGroupUpdate(group);
+
+    console.log(`${member.player.username} ${spectating ? 'is spectating' : 'joined'} golf group ${group.name}`);
+  }
+
+  /**
+   * Take a player out of their group, closing the group if nobody is left
+   */
+  private _leaveCurrentGroup(player: Player): void {
+    const key = this._playerGroups.get(player.id);
+    const group = key ? this._groups.get(key) : undefined;
+    this._playerGroups.delete(player.id);
+    if (!key || !group) return;
+
+    if (group.spectators.delete(player.id)) {
+      group.manager.removeSpectator(player);
+      return;
+    }
+
+    group.members.delete(player.id);
+    group.readyIds.delete(player.id);
+    group.endVotes.delete(player.id);
+    group.manager.removePlayer(player);
+
+    // Mid-game the group carries on without a host, and can vote to end
+    if (group.hostId === player.id) {
+      group.hostId = undefined;
+    }
+
+    // The clubhouse always stays open
+    if (group.members.size === 0 && key !== this._getGroupKey(DEFAULT_GROUP_NAME)) {
+      if (group.manager.getGameState().inProgress) {
+        group.manager.endGame();
+      }
+      this._groups.delete(key);
+      console.log(`Closed empty golf group ${group.name}`);
+
+      // Nobody is left to watch, so spectators go back to the clubhouse
+      group.spectators.forEach(spectator => {
+        group.manager.removeSpectator(spectator.player);
+        this._joinGroup(spectator, this._getGroupKey(DEFAULT_GROUP_NAME));
+      });
+      return;
+    }
+
+    this._checkEndVote(group);
+    this._sendGroupUpdate(group);
+  }
+
+  /**
+   * End the game once more than half the group has voted to
+   */
+  private _checkEndVote(group: GolfGroup): EndGameVote {
+    const needed = Math.floor(group.members.size / 2) + 1;
+    const votes = group.endVotes.size;
+    const passed = votes > 0 && votes >= needed;
+
+    if (passed) {
+      group.endVotes.clear();
+      group.manager.endGame();
+      console.log(`Golf group ${group.name} voted to end its game`);
+    }
+
+    return { votes, needed, passed };
+  }
+
+  /**
+   * Tell a group's members who hosts and who is ready
+   */
+  private _sendGroupUpdate(group: GolfGroup): void {
+    const hostId = this.getHost(group)?.player.id;
+    const players = Array.from(group.members.values()).map(member => ({
+      username: member.player.username,
+      host: member.player.id === hostId,
+      ready: member.player.id === hostId || group.readyIds.has(member.player.id),
+    }));
+
+    [...group.members.values(), ...group.spectators.values()].forEach(member => {
+      member.player.ui.sendData({
+        type: 'golf-group-update',
+        group: group.name,
+        players,
+        inProgress: group.manager.getGameState().inProgress,
+      });
+    });
+  }
+
+  private _getMember(player: Player): GolfGroupMember | undefined {
+    const group = this.getGroupForPlayer(player);
+    return group?.members.get(player.id) ?? group?.spectators.get(player.id);
+  }
+
+  private _getGroupKey(name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+
+import ShotClock, { DEFAULT_AFK_TIMEOUTS, DEFAULT_SHOT_CLOCK_SECONDS, keepsShotAfterTimeout } from './ShotClock.ts';
+
+describe('ShotClock', () => {
+  test('uses the default time and timeouts unless given', () => {
+    const clock = new ShotClock();
+
+    expect(clock.seconds).toBe(DEFAULT_SHOT_CLOCK_SECONDS);
+    expect(clock.afkTimeouts).toBe(DEFAULT_AFK_TIMEOUTS);
+    expect(new ShotClock({ seconds: 30, afkTimeouts: 0 }).afkTimeouts).toBe(1);
+  });
+
+  test('running out of time auto-putts on the green and costs a penalty elsewhere', () => {
+    const clock = new ShotClock({ afkTimeouts: 3 });
+
+    expect(clock.recordTimeout('ann', true)).toBe('auto-putt');
+    expect(clock.recordTimeout('bob', false)).toBe('penalty');
+    expect(clock.isAfk('ann')).toBe(false);
+  });
+
+  test('timeouts in a row mark the player away', () => {
+    const clock = new ShotClock();
+
+    expect(clock.recordTimeout('ann', false)).toBe('penalty');
+    expect(clock.recordTimeout('ann', true)).toBe('afk');
+    expect(clock.isAfk('ann')).toBe(true);
+    expect(clock.isAfk('bob')).toBe(false);
+  });
+
+  test('a shot in time clears the run of timeouts', () => {
+    const clock = new ShotClock();
+
+    clock.recordTimeout('ann', false);
+    clock.recordShot('ann');
+    expect(clock.recordTimeout('ann', false)).toBe('penalty');
+  });
+
+  test('coming back clears the away mark and the run of timeouts', () => {
+    const clock = new ShotClock();
+    clock.recordTimeout('ann', false);
+    clock.recordTimeout('ann', false);
+
+    expect(clock.markActive('ann')).toBe(true);
+    expect(clock.isAfk('ann')).toBe(false);
+    expect(clock.markActive('ann')).toBe(false);
+    expect(clock.recordTimeout('ann', false)).toBe('penalty');
+  });
+});
+
+describe('keepsShotAfterTimeout', () => {
+  test('the player who took a penalty plays next, until they are marked away', () => {
+    const clock = new ShotClock({ afkTimeouts: 3 });
+    const nextPlayer = (onGreen: boolean) => keepsShotAfterTimeout(clock.recordTimeout('ann', onGreen)) ? 'ann' : 'next in order';
+
+    expect(nextPlayer(false)).toBe('ann');
+    expect(nextPlayer(false)).toBe('ann');
+    expect(nextPlayer(false)).toBe('next in order');
+  });
+
+  test('an auto-putt plays on like any other shot', () => {
+    expect(keepsShotAfterTimeout('auto-putt')).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Shot Clock - Time limit for each shot
+ *
+ * Keeps a group moving when someone walks away:
+ * - A countdown for every shot
+ * - Running out of time auto-putts on the green and costs a penalty stroke elsewhere
+ * - After a penalty the same player keeps the shot on a fresh clock
+ * - Players who keep running out of time are marked AFK and skipped until they're back
+ *
+ * Pure class with no World dependency; the game manager runs the timers.
+ */
+
+export const DEFAULT_SHOT_CLOCK_SECONDS = 45;
+
+// Timeouts in a row before a player is marked AFK
+export const DEFAULT_AFK_TIMEOUTS = 2;
+
+export const SHOT_CLOCK_PENALTY_STROKES = 1;
+
+export type ShotClockAction = 'auto-putt' | 'penalty' | 'afk';
+
+export interface ShotClockOptions {
+  seconds?: number;         // 0 turns the clock off
+  afkTimeouts?: number;
+}
+
+/**
+ * Whether the player who ran out of time still plays the next shot: after a
+ * penalty they do, as their ball hasn't moved; an auto-putt plays on as a normal
+ * shot, and away players are skipped
+ */
+export function keepsShotAfterTimeout(action: ShotClockAction): boolean {
+  return action === 'penalty';
+}
+
+export default class ShotClock {
+  public readonly seconds: number;
+  public readonly afkTimeouts: number;
+  private _timeouts: Map<string, number> = new Map(); // Player id to timeouts in a row
+  private _afkPlayerIds: Set<string> = new Set();
+
+  constructor(options: ShotClockOptions = {}) {
+    this.seconds = options.seconds ?? DEFAULT_SHOT_CLOCK_SECONDS;
+    this.afkTimeouts = Math.max(1, options.afkTimeouts ?? DEFAULT_AFK_TIMEOUTS);
+  }
+
+  /**
+   * Record a player running out of time and decide what happens to them
+   */
+  public recordTimeout(playerId: string, onGreen: boolean): ShotClockAction {
+    const timeouts = (this._timeouts.get(playerId) ?? 0) + 1;
+    this._timeouts.set(playerId, timeouts);
+
+    if (timeouts >= this.afkTimeouts) {
+      this._afkPlayerIds.add(playerId);
+      return 'afk';
+    }
+
+    return onGreen ? 'auto-putt' : 'penalty';
+  }
+
+  /**
+   * A shot played in time clears the player's run of timeouts
+   */
+  public recordShot(playerId: string): void {
+    this._timeouts.delete(playerId);
+  }
+
+  /**
+   * Bring a player back into the rotation; returns true if they were AFK
+   */
+  public markActive(playerId: string): boolean {
+    if (!this._afkPlayerIds.has(playerId)) return false;
+
+    this._timeouts.delete(playerId);
+    this._afkPlayerIds.delete(playerId);
+    return true;
+  }
+
+  /**
+   * Check whether a player is being skipped
+   */
+  public isAfk(playerId: string): boolean {
+    return this._afkPlayerIds.has(playerId);
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+
+import SwingMeter from './SwingMeter.ts';
+
+// One meter width per second makes needle positions easy to follow
+function createMeter() {
+  return new SwingMeter({ needleSpeed: 1, accuracyWindow: 0.04, missLimit: 0.2, maxOffline: 12, maxDistanceLoss: 0.3 });
+}
+
+// Start the swing and set half power; the needle is then on its way back to the sweet spot
+function setHalfPower(meter: SwingMeter) {
+  meter.tap();
+  meter.tick(0.5);
+  meter.tap();
+}
+
+describe('SwingMeter', () => {
+  test('second click sets power where the needle is', () => {
+    const meter = createMeter();
+    setHalfPower(meter);
+
+    expect(meter.getState().phase).toBe('accuracy');
+    expect(meter.getState().power).toBeCloseTo(0.5, 5);
+  });
+
+  test('power needle bounces off full power', () => {
+    const meter = createMeter();
+    meter.tap();
+    meter.tick(1.2);
+
+    expect(meter.getState().needle).toBe(1);
+    meter.tap();
+    expect(meter.getState().power).toBe(1);
+  });
+
+  test('never setting power abandons the swing', () => {
+    const meter = createMeter();
+    meter.tap();
+    meter.tick(1);
+    meter.tick(1.1);
+
+    expect(meter.isSwinging()).toBe(false);
+  });
+
+  test('third click inside the accuracy window is perfect', () => {
+    const meter = createMeter();
+    setHalfPower(meter);
+    meter.tick(0.47); // Needle 0.03 before the sweet spot
+
+    const result = meter.tap()!;
+    expect(result.shape).toBe('perfect');
+    expect(result.offlineDegrees).toBe(0);
+    expect(result.distanceFactor).toBe(1);
+    expect(result.power).toBeCloseTo(0.5, 5);
+    expect(meter.isSwinging()).toBe(false);
+  });
+
+  test('early third click hooks left and loses distance', () => {
+    const meter = createMeter();
+    setHalfPower(meter);
+    meter.tick(0.4); // Needle 0.1 before the sweet spot
+
+    const result = meter.tap()!;
+    const severity = (0.1 - 0.04) / (0.2 - 0.04);
+    expect(result.shape).toBe('hook');
+    expect(result.accuracy).toBeCloseTo(0.1, 5);
+    expect(result.offlineDegrees).toBeCloseTo(-severity * 12, 5);
+    expect(result.distanceFactor).toBeCloseTo(1 - severity * 0.3, 5);
+  });
+
+  test('late third click slices right', () => {
+    const meter = createMeter();
+    setHalfPower(meter);
+    meter.tick(0.6); // Needle 0.1 past the sweet spot
+
+    const result = meter.tap()!;
+    expect(result.shape).toBe('slice');
+    expect(result.offlineDegrees).toBeGreaterThan(0);
+  });
+
+  test('running out of the miss zone forces the worst slice', () => {
+    const meter = createMeter();
+    setHalfPower(meter);
+
+    expect(meter.tick(0.6)).toBeUndefined();
+    const result = meter.tick(0.2)!;
+    expect(result.shape).toBe('slice');
+    expect(result.offlineDegrees).toBeCloseTo(12, 5);
+    expect(result.distanceFactor).toBeCloseTo(0.7, 5);
+    expect(meter.isSwinging()).toBe(false);
+  });
+});
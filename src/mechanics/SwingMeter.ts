@@ -0,0 +1,171 @@
+/**
+ * Swing Meter - Classic three-click swing
+ * 
+ * Click once to start the swing, again to set power, and a third time
+ * as the needle comes back through the sweet spot:
+ * - Early third clicks hook the ball, late ones slice it
+ * - Missing the accuracy window also costs distance
+ * - Letting the needle run out of the miss zone mis-hits automatically
+ */
+
+export type SwingMode = 'hold' | 'three-click';
+
+export type SwingPhase = 'idle' | 'power' | 'accuracy';
+
+export type SwingShape = 'perfect' | 'hook' | 'slice';
+
+export interface SwingMeterOptions {
+  needleSpeed?: number;     // Meter widths per second
+  accuracyWindow?: number;  // Half-width of the sweet spot
+  missLimit?: number;       // How far past the sweet spot the needle travels before a forced mis-hit
+  maxOffline?: number;      // Degrees off line at the edge of the miss zone
+  maxDistanceLoss?: number; // Fraction of distance lost at the edge of the miss zone
+}
+
+export interface SwingResult {
+  power: number;            // 0-1
+  accuracy: number;         // Signed needle error at the third click (positive early, negative late)
+  shape: SwingShape;
+  offlineDegrees: number;   // Negative is left (hook), positive is right (slice)
+  distanceFactor: number;   // Fraction of the set power's distance kept
+}
+
+export interface SwingMeterState {
+  phase: SwingPhase;
+  needle: number;           // Current needle position (sweet spot at 0, full power at 1)
+  power: number;            // Power set by the second click (0 until set)
+  sweetSpot: number;
+  accuracyWindow: number;
+  missLimit: number;
+}
+
+const SWEET_SPOT = 0;
+
+export default class SwingMeter {
+  public readonly needleSpeed: number;
+  public readonly accuracyWindow: number;
+  public readonly missLimit: number;
+  public readonly maxOffline: number;
+  public readonly maxDistanceLoss: number;
+
+  private _phase: SwingPhase = 'idle';
+  private _needle: number = SWEET_SPOT;
+  private _direction: 1 | -1 = 1;
+  private _power: number = 0;
+
+  constructor(options: SwingMeterOptions = {}) {
+    this.needleSpeed = options.needleSpeed ?? 0.9;
+    this.accuracyWindow = options.accuracyWindow ?? 0.04;
+    this.missLimit = options.missLimit ?? 0.2;
+    this.maxOffline = options.maxOffline ?? 12;
+    this.maxDistanceLoss = options.maxDistanceLoss ?? 0.3;
+  }
+
+  /**
+   * Whether a swing is in progress
+   */
+  public isSwinging(): boolean {
+    return this._phase !== 'idle';
+  }
+
+  /**
+   * Current meter state (for the HUD)
+   */
+  public getState(): SwingMeterState {
+    return {
+      phase: this._phase,
+      needle: this._needle,
+      power: this._power,
+      sweetSpot: SWEET_SPOT,
+      accuracyWindow: this.accuracyWindow,
+      missLimit: this.missLimit,
+    };
+  }
+
+  /**
+   * Handle a click; returns the result once the swing is complete
+   */
+  public tap(): SwingResult | undefined {
+    switch (this._phase) {
+      case 'idle':
+        this._phase = 'power';
+        this._needle = SWEET_SPOT;
+        this._direction = 1;
+        this._power = 0;
+        return undefined;
+      case 'power':
+        this._phase = 'accuracy';
+        this._power = Math.max(0, Math.min(1, this._needle));
+        this._direction = -1;
+        return undefined;
+      case 'accuracy':
+        return this._complete(this._needle - SWEET_SPOT);
+    }
+  }
+
+  /**
+   * Move the needle; returns a forced result if it runs out of the miss zone
+   */
+  public tick(deltaSeconds: number): SwingResult | undefined {
+    if (this._phase === 'idle') return undefined;
+
+    this._needle += this._direction * this.needleSpeed * deltaSeconds;
+
+    if (this._phase === 'power') {
+      // Needle bounces off full power and comes back down
+      if (this._needle >= 1) {
+        this._needle = 1;
+        this._direction = -1;
+      }
+
+      // Never set power - the swing is abandoned
+      if (this._needle <= SWEET_SPOT && this._direction === -1) {
+        this.cancel();
+      }
+
+      return undefined;
+    }
+
+    if (this._needle <= SWEET_SPOT - this.missLimit) {
+      return this._complete(-this.missLimit);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Abandon the current swing
+   */
+  public cancel(): void {
+    this._phase = 'idle';
+    this._needle = SWEET_SPOT;
+    this._direction = 1;
+    this._power = 0;
+  }
+
+  /**
+   * Turn the third-click error into a shot result
+   */
+  private _complete(error: number): SwingResult {
+    const power = this._power;
+    this.cancel();
+
+    const miss = Math.max(0, Math.abs(error) - this.accuracyWindow) / (this.missLimit - this.accuracyWindow);
+    const severity = Math.min(1, miss);
+
+    if (severity === 0) {
+      return { power, accuracy: error, shape: 'perfect', offlineDegrees: 0, distanceFactor: 1 };
+    }
+
+    // Early (needle still above the sweet spot) hooks left, late slices right
+    const shape: SwingShape = error > 0 ? 'hook' : 'slice';
+
+    return {
+      power,
+      accuracy: error,
+      shape,
+      offlineDegrees: (shape === 'hook' ? -1 : 1) * severity * this.maxOffline,
+      distanceFactor: 1 - severity * this.maxDistanceLoss,
+    };
+  }
+}
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import type { GolfGameMode } from '../managers/GolfGameManager.ts';
+import RoundHistoryStore, { type RoundPlayerRecord } from './RoundHistoryStore.ts';
+
+let directory: string;
+let filePath: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), 'golf-rounds-'));
+  filePath = join(directory, 'nested', 'rounds.json');
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function player(playerId: string, strokes: number[], courseHandicap?: number): RoundPlayerRecord {
+  return {
+    playerId,
+    username: playerId.toUpperCase(),
+    strokes,
+    penalties: strokes.map(() => 0),
+    totalStrokes: strokes.reduce((total, holeStrokes) => total + holeStrokes, 0),
+    courseHandicap,
+  };
+}
+
+function saveRound(
+  store: RoundHistoryStore,
+  players: RoundPlayerRecord[],
+  playedAt: string,
+  courseId: string = 'links',
+  mode: GolfGameMode = 'stroke-play',
+) {
+  return store.saveRound({
+    courseId,
+    courseName: courseId === 'links' ? 'Hytopia Links' : 'Other Course',
+    mode,
+    pars: [3, 4, 5],
+    players,
+    playedAt,
+  });
+}
+
+describe('RoundHistoryStore', () => {
+  test('saved rounds come back from a fresh store', () => {
+    const saved = saveRound(new RoundHistoryStore(filePath), [player('ann', [3, 4, 5]), player('bob', [4, 5, 6])], '2026-01-01T10:00:00.000Z');
+
+    const store = new RoundHistoryStore(filePath);
+    expect(store.getRounds()).toEqual([saved]);
+
+    const [summary] = store.getPlayerRounds('bob');
+    expect(summary?.totalStrokes).toBe(15);
+    expect(summary?.toPar).toBe(3);
+    expect(summary?.finish).toBe(2);
+    expect(summary?.playerCount).toBe(2);
+  });
+
+  test('starts empty when there is no file yet', () => {
+    expect(new RoundHistoryStore(filePath).getRounds()).toEqual([]);
+  });
+
+  test('keeps a corrupt file aside and starts fresh', () => {
+    const corruptPath = join(directory, 'rounds.json');
+    const corrupt = '{ "version": 1, "rounds": [';
+    writeFileSync(corruptPath, corrupt);
+
+    const store = new RoundHistoryStore(corruptPath);
+    expect(store.getRounds()).toEqual([]);
+
+    saveRound(store, [player('ann', [3, 4, 5])], '2026-01-01T10:00:00.000Z');
+    expect(new RoundHistoryStore(corruptPath).getRounds()).toHaveLength(1);
+
+    const keptAside = readdirSync(directory).filter(name => name.startsWith('rounds.json.corrupt-'));
+    expect(keptAside).toHaveLength(1);
+    expect(readFileSync(join(directory, keptAside[0]!), 'utf8')).toBe(corrupt);
+  });
+
+  test('lists a player\'s rounds most recent first', () => {
+    const store = new RoundHistoryStore(filePath);
+    saveRound(store, [player('ann', [3, 4, 5])], '2026-01-01T10:00:00.000Z');
+    saveRound(store, [player('ann', [4, 4, 4])], '2026-01-02T10:00:00.000Z');
+    saveRound(store, [player('bob', [5, 5, 5])], '2026-01-03T10:00:00.000Z');
+
+    expect(store.getPlayerRounds('ann').map(round => round.playedAt)).toEqual(['2026-01-02T10:00:00.000Z', '2026-01-01T10:00:00.000Z']);
+    expect(store.getPlayerRounds('ann', 1)).toHaveLength(1);
+  });
+
+  test('personal bests keep the best round and best score on each hole per course', () => {
+    const store = new RoundHistoryStore(filePath);
+    saveRound(store, [player('ann', [3, 5, 6])], '2026-01-01T10:00:00.000Z');
+    saveRound(store, [player('ann', [4, 3, 5])], '2026-01-02T10:00:00.000Z');
+    saveRound(store, [player('ann', [1, 4, 5])], '2026-01-03T10:00:00.000Z', 'other');
+
+    const bests = store.getPersonalBests('ann');
+    expect(bests.roundsPlayed).toBe(3);
+    expect(bests.holesInOne).toBe(1);
+
+    const links = bests.courses.find(course => course.courseId === 'links')!;
+    expect(links.bestRound.totalStrokes).toBe(12);
+    expect(links.bestHoles).toEqual([3, 3, 5]);
+    expect(bests.courses.find(course => course.courseId === 'other')?.bestHoles).toEqual([1, 4, 5]);
+  });
+
+  test('rounds with picked-up holes stay off best round and hole records', () => {
+    const store = new RoundHistoryStore(filePath);
+    saveRound(store, [player('ann', [4, 5, 6])], '2026-01-01T10:00:00.000Z');
+    saveRound(store, [{ ...player('ann', [3, 3, 5]), estimatedHoles: [1] }], '2026-01-02T10:00:00.000Z');
+
+    const links = store.getPersonalBests('ann').courses[0]!;
+    expect(links.bestRound.totalStrokes).toBe(15);
+    expect(links.bestHoles).toEqual([3, 5, 5]);
+
+    const leaderboard = store.getCourseLeaderboard('links')!;
+    expect(leaderboard.bestGross.map(entry => entry.score)).toEqual([15]);
+    expect(leaderboard.bestHoles.map(record => record?.strokes)).toEqual([3, 5, 5]);
+  });
+
+  test('match rounds with estimated holes keep their result but stay off records', () => {
+    const store = new RoundHistoryStore(filePath);
+    saveRound(store, [player('ann', [4, 4, 6])], '2026-01-01T10:00:00.000Z');
+    store.saveRound({
+      courseId: 'links',
+      courseName: 'Hytopia Links',
+      mode: 'match-play',
+      pars: [3, 4, 5],
+      matchResult: 'ANN wins 2 & 1',
+      players: [{ ...player('ann', [1, 3, 5]), estimatedHoles: [0, 2] }],
+      playedAt: '2026-01-02T10:00:00.000Z',
+    });
+
+    const [latest] = store.getPlayerRounds('ann');
+    expect(latest?.matchResult).toBe('ANN wins 2 & 1');
+    expect(latest?.estimatedHoles).toEqual([0, 2]);
+
+    const bests = store.getPersonalBests('ann');
+    expect(bests.holesInOne).toBe(0);
+    expect(bests.courses[0]?.bestRound.totalStrokes).toBe(14);
+    expect(bests.courses[0]?.bestHoles).toEqual([4, 3, 6]);
+
+    const leaderboard = store.getCourseLeaderboard('links', 'match-play')!;
+    expect(leaderboard.roundsPlayed).toBe(1);
+    expect(leaderboard.bestGross).toEqual([]);
+    expect(leaderboard.bestHoles).toEqual([undefined, expect.objectContaining({ strokes: 3 })]);
+    expect(leaderboard.mostHolesInOne).toEqual([]);
+  });
+});
+
+describe('course leaderboards', () => {
+  test('rank gross and net scores lowest first', () => {
+    const store = new RoundHistoryStore(filePath);
+    saveRound(store, [player('ann', [4, 4, 5], 0), player('bob', [4, 5, 6], 4)], '2026-01-01T10:00:00.000Z');
+    saveRound(store, [player('cat', [3, 4, 5], 1)], '2026-01-02T10:00:00.000Z');
+
+    const leaderboard = store.getCourseLeaderboard('links')!;
+    expect(leaderboard.courseName).toBe('Hytopia Links');
+    expect(leaderboard.roundsPlayed).toBe(2);
+    expect(leaderboard.bestGross.map(entry => [entry.username, entry.score, entry.toPar])).toEqual([['CAT', 12, 0], ['ANN', 13, 1], ['BOB', 15, 3]]);
+    expect(leaderboard.bestNet.map(entry => [entry.username, entry.score])).toEqual([['BOB', 11], ['CAT', 11], ['ANN', 13]]);
+  });
+
+  test('ties go to whoever got there first, whatever order they were saved in', () => {
+    const store = new RoundHistoryStore(filePath);
+    saveRound(store, [player('ann', [3, 4, 5])], '2026-01-03T10:00:00.000Z');
+    saveRound(store, [player('bob', [3, 4, 5])], '2026-01-01T10:00:00.000Z');
+    saveRound(store, [player('cat', [3, 4, 5])], '2026-01-02T10:00:00.000Z');
+
+    expect(store.getCourseLeaderboard('links')!.bestGross.map(entry => entry.username)).toEqual(['BOB', 'CAT', 'ANN']);
+    expect(store.getCourseLeaderboard('links', undefined, 2)!.bestGross).toHaveLength(2);
+  });
+
+  test('hole records keep the first to make the score', () => {
+    const store = new RoundHistoryStore(filePath);
+    saveRound(store, [player('ann', [3, 4, 5])], '2026-01-01T10:00:00.000Z');
+    saveRound(store, [player('bob', [3, 3, 6])], '2026-01-02T10:00:00.000Z');
+
+    expect(store.getCourseLeaderboard('links')!.bestHoles.map(record => [record?.username, record?.strokes])).toEqual([
+      ['ANN', 3],
+      ['BOB', 3],
+      ['ANN', 5],
+    ]);
+  });
+
+  test('count holes in one per player, most first', () => {
+    const store = new RoundHistoryStore(filePath);
+    saveRound(store, [player('ann', [1, 4, 5]), player('bob', [1, 4, 5])], '2026-01-01T10:00:00.000Z');
+    saveRound(store, [player('bob', [1, 4, 5])], '2026-01-02T10:00:00.000Z');
+
+    expect(store.getCourseLeaderboard('links')!.mostHolesInOne).toEqual([
+      { playerId: 'bob', username: 'BOB', holesInOne: 2 },
+      { playerId: 'ann', username: 'ANN', holesInOne: 1 },
+    ]);
+  });
+
+  test('filter by mode, leaving team rounds off the overall board', () => {
+    const store = new RoundHistoryStore(filePath);
+    saveRound(store, [player('ann', [3, 4, 5])], '2026-01-01T10:00:00.000Z');
+    saveRound(store, [player('bob', [2, 3, 4])], '2026-01-02T10:00:00.000Z', 'links', 'scramble');
+    saveRound(store, [player('cat', [4, 4, 4])], '2026-01-03T10:00:00.000Z', 'links', 'stableford');
+
+    expect(store.getCourseLeaderboard('links')!.bestGross.map(entry => entry.username)).toEqual(['ANN', 'CAT']);
+    expect(store.getCourseLeaderboard('links', 'scramble')!.bestGross.map(entry => entry.username)).toEqual(['BOB']);
+    expect(store.getCourseLeaderboard('unknown')).toBeUndefined();
+  });
+
+  test('rank Stableford rounds by points, most first, not by strokes', () => {
+    const store = new RoundHistoryStore(filePath);
+    // Ann is steady; Bob makes a birdie and an eagle but blows up on the last
+    saveRound(store, [
+      { ...player('ann', [4, 5, 6]), points: [1, 1, 1], totalPoints: 3 },
+      { ...player('bob', [2, 3, 9]), points: [3, 4, 0], totalPoints: 7 },
+    ], '2026-01-01T10:00:00.000Z', 'links', 'stableford');
+    saveRound(store, [{ ...player('cat', [3, 4, 5]), points: [2, 2, 2], totalPoints: 6 }], '2026-01-02T10:00:00.000Z', 'links', 'stableford');
+
+    const leaderboard = store.getCourseLeaderboard('links', 'stableford')!;
+    expect(leaderboard.bestPoints.map(entry => [entry.username, entry.score])).toEqual([['BOB', 7], ['CAT', 6], ['ANN', 3]]);
+    expect(leaderboard.bestGross.map(entry => entry.username)).toEqual(['CAT', 'BOB', 'ANN']);
+    expect(store.getCourseLeaderboard('links', 'stroke-play')!.bestPoints).toEqual([]);
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Round History Store - Completed rounds on disk
+ *
+ * Keeps finished rounds in a JSON file so scorecards survive a restart:
+ * - Per-hole strokes and penalties for every player in the round
+ * - Each player's round stats (fairways, greens, putts, sand saves)
+ * - Course, date and game mode
+ * - Queries for a player's past rounds, personal bests and handicap index
+ * - All-time leaderboards for each course and game mode
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+import type { GolfGameMode } from '../managers/GolfGameManager.ts';
+import { calculateHandicapIndex, STANDARD_SLOPE } from '../scoring/Handicap.ts';
+import type { RoundStats } from '../scoring/ShotStats.ts';
+
+export const DEFAULT_ROUND_HISTORY_PATH = 'data/rounds.json';
+
+// All-time leaderboards list this many entries
+export const DEFAULT_LEADERBOARD_SIZE = 5;
+
+// Shared-ball team rounds aren't a player's own score, so they don't count for handicaps
+// or for leaderboards unless asked for by mode
+const NON_HANDICAP_MODES: GolfGameMode[] = ['scramble', 'alternate-shot'];
+
+export interface RoundPlayerRecord {
+  playerId: string;
+  username: string;
+  strokes: number[];        // Strokes per hole, penalties included
+  penalties: number[];      // Penalty strokes per hole
+  totalStrokes: number;
+  courseHandicap?: number;  // Handicap strokes the player received
+  stats?: RoundStats;       // Fairways, greens, putts... (rounds saved before stats have none)
+  estimatedHoles?: number[]; // Hole indexes scored without being played out (conceded, or never reached in a match)
+  points?: number[];        // Stableford points per hole (Stableford rounds only)
+  totalPoints?: number;
+}
+
+export interface RoundRecord {
+  id: string;
+  courseId: string;
+  courseName: string;
+  mode: GolfGameMode;
+  playedAt: string;         // ISO date the round finished
+  pars: number[];           // Par per hole
+  strokeIndexes?: number[]; // Handicap stroke index per hole
+  courseRating?: number;    // Defaults to par
+  slopeRating?: number;     // Defaults to the standard slope
+  matchResult?: string;     // How a match play round finished, e.g. "Alice wins 3 & 2"
+  players: RoundPlayerRecord[];
+}
+
+export interface PlayerRoundSummary {
+  roundId: string;
+  courseId: string;
+  courseName: string;
+  mode: GolfGameMode;
+  playedAt: string;
+  strokes: number[];
+  penalties: number[];
+  pars: number[];
+  strokeIndexes?: number[];
+  courseRating: number;
+  slopeRating: number;
+  courseHandicap: number;
+  totalStrokes: number;
+  toPar: number;
+  finish: number;           // Finishing position in the round (1 is the winner)
+  playerCount: number;
+  stats?: RoundStats;
+  estimatedHoles: number[];
+  matchResult?: string;
+}
+
+export interface CourseBest {
+  courseId: string;
+  courseName: string;
+  bestRound: PlayerRoundSummary;            // Rounds played out in full come before ones with estimated holes
+  bestHoles: (number | undefined)[];        // Lowest score on each hole, undefined if never played out
+}
+
+export interface PersonalBests {
+  playerId: string;
+  roundsPlayed: number;
+  holesInOne: number;
+  courses: CourseBest[];
+}
+
+export interface LeaderboardEntry {
+  roundId: string;
+  playerId: string;
+  username: string;
+  mode: GolfGameMode;
+  score: number;            // Gross or net strokes, or Stableford points
+  toPar: number;
+  playedAt: string;
+}
+
+export interface HoleRecord {
+  holeNumber: number;
+  strokes: number;
+  username: string;
+  playedAt: string;
+}
+
+export interface HolesInOneEntry {
+  playerId: string;
+  username: string;
+  holesInOne: number;
+}
+
+export interface CourseLeaderboard {
+  courseId: string;
+  courseName: string;
+  mode: GolfGameMode | undefined;   // Undefined for every individual mode
+  roundsPlayed: number;
+  bestGross: LeaderboardEntry[];
+  bestNet: LeaderboardEntry[];
+  bestPoints: LeaderboardEntry[];        // Stableford rounds, most points first
+  bestHoles: (HoleRecord | undefined)[]; // Lowest score ever on each hole, first to make it
+  mostHolesInOne: HolesInOneEntry[];
+}
+
+interface RoundHistoryFile {
+  version: 1;
+  rounds: RoundRecord[];
+}
+
+/**
+ * Scores of the holes that were played out, by hole index
+ */
+function getPlayedHoleScores(strokes: number[], estimatedHoles: number[] = []): Map<number, number> {
+  return new Map(
+    strokes
+      .map((holeStrokes, holeIndex): [number, number] => [holeIndex, holeStrokes])
+      .filter(([holeIndex]) => !estimatedHoles.includes(holeIndex)),
+  );
+}
+
+export default class RoundHistoryStore {
+  private _filePath: string;
+  private _rounds: RoundRecord[] = [];
+  private _canSave: boolean = true;   // False while an unreadable file couldn't be moved out of the way
+
+  constructor(filePath: string = DEFAULT_ROUND_HISTORY_PATH) {
+    this._filePath = filePath;
+    this._load();
+  }
+
+  /**
+   * Store a completed round
+   */
+  public saveRound(round: Omit<RoundRecord, 'id' | 'playedAt'> & { playedAt?: string }): RoundRecord {
+    const record: RoundRecord = {
+      ...round,
+      id: randomUUID(),
+      playedAt: round.playedAt ?? new Date().toISOString(),
+    };
+
+    this._rounds.push(record);
+    this._save();
+
+    console.log(`Saved round ${record.id} on ${record.courseName} (${record.players.length} players)`);
+    return record;
+  }
+
+  /**
+   * Get every stored round, oldest first
+   */
+  public getRounds(): RoundRecord[] {
+    return [...this._rounds];
+  }
+
+  /**
+   * Get a player's past rounds, most recent first
+   */
+  public getPlayerRounds(playerId: string, limit?: number): PlayerRoundSummary[] {
+    const summaries = this._rounds
+      .map(round => this._summarizeRound(round, playerId))
+      .filter((summary): summary is PlayerRoundSummary => !!summary)
+      .reverse();
+
+    return limit === undefined ? summaries : summaries.slice(0, limit);
+  }
+
+  /**
+   * Get a player's handicap index from their stored rounds, if they have played enough
+   */
+  public getHandicapIndex(playerId: string): number | undefined {
+    const rounds = this.getPlayerRounds(playerId).filter(round => !NON_HANDICAP_MODES.includes(round.mode));
+    return calculateHandicapIndex(rounds.reverse());
+  }
+
+  /**
+   * Get a player's best round and best hole scores on each course
+   */
+  public getPersonalBests(playerId: string): PersonalBests {
+    const rounds = this.getPlayerRounds(playerId);
+    const courses = new Map<string, CourseBest>();
+
+    const isBetterRound = (round: PlayerRoundSummary, best: PlayerRoundSummary) =>
+      Number(round.estimatedHoles.length > 0) - Number(best.estimatedHoles.length > 0) || round.totalStrokes - best.totalStrokes;
+
+    rounds.forEach(round => {
+      const best = courses.get(round.courseId) ?? {
+        courseId: round.courseId,
+        courseName: round.courseName,
+        bestRound: round,
+        bestHoles: round.strokes.map(() => undefined),
+      };
+      courses.set(round.courseId, best);
+
+      if (isBetterRound(round, best.bestRound) < 0) {
+        best.bestRound = round;
+      }
+
+      getPlayedHoleScores(round.strokes, round.estimatedHoles).forEach((strokes, holeIndex) => {
+        const bestHole = best.bestHoles[holeIndex];
+        best.bestHoles[holeIndex] = bestHole === undefined ? strokes : Math.min(bestHole, strokes);
+      });
+    });
+
+    return {
+      playerId,
+      roundsPlayed: rounds.length,
+      holesInOne: rounds.reduce((count, round) =>
+        count + [...getPlayedHoleScores(round.strokes, round.estimatedHoles).values()].filter(strokes => strokes === 1).length, 0),
+      courses: [...courses.values()],
+    };
+  }
+
+  /**
+   * All-time leaderboard for a course, for one mode or every individual mode
+   */
+  public getCourseLeaderboard(courseId: string, mode?: GolfGameMode, limit: number = DEFAULT_LEADERBOARD_SIZE): CourseLeaderboard | undefined {
+    const rounds = this._rounds.filter(round =>
+      round.courseId === courseId && (mode ? round.mode === mode : !NON_HANDICAP_MODES.includes(round.mode)),
+    );
+    const courseName = this._rounds.find(round => round.courseId === courseId)?.courseName;
+    if (!courseName) return undefined;
+
+    const entries = rounds.flatMap(round => {
+      const par = round.pars.reduce((sum, holePar) => sum + holePar, 0);
+      return round.players.map(player => ({ round, player, par }));
+    });
+
+    // Only rounds played out in full go on the gross and net boards
+    const fullRounds = entries.filter(({ player }) => !player.estimatedHoles?.length);
+
+    const toEntry = ({ round, player, par }: typeof entries[number], score: number): LeaderboardEntry => ({
+      roundId: round.id,
+      playerId: player.playerId,
+      username: player.username,
+      mode: round.mode,
+      score,
+      toPar: score - par,
+      playedAt: round.playedAt,
+    });
+
+    // Ties go to whoever got there first
+    const rank = (scored: LeaderboardEntry[], mostFirst: boolean = false) => scored
+      .sort((a, b) => (mostFirst ? b.score - a.score : a.score - b.score) || a.playedAt.localeCompare(b.playedAt))
+      .slice(0, limit);
+
+    // Picking up is part of Stableford, so every Stableford round goes on the points board
+    const stablefordRounds = entries.filter(({ round, player }) => round.mode === 'stableford' && player.totalPoints !== undefined);
+
+    const bestHoles: (HoleRecord | undefined)[] = [];
+    const holesInOne = new Map<string, HolesInOneEntry>();
+    entries.forEach(({ round, player }) => {
+      getPlayedHoleScores(player.strokes, player.estimatedHoles).forEach((strokes, holeIndex) => {
+        // Rounds are stored oldest first, so a tie keeps the first to make the score
+        const best = bestHoles[holeIndex];
+        if (!best || strokes < best.strokes) {
+          bestHoles[holeIndex] = { holeNumber: holeIndex + 1, strokes, username: player.username, playedAt: round.playedAt };
+        }
+
+        if (strokes === 1) {
+          const entry = holesInOne.get(player.playerId) ?? { playerId: player.playerId, username: player.username, holesInOne: 0 };
+          entry.holesInOne++;
+          holesInOne.set(player.playerId, entry);
+        }
+      });
+    });
+
+    return {
+      courseId,
+      courseName,
+      mode,
+      roundsPlayed: rounds.length,
+      bestGross: rank(fullRounds.map(entry => toEntry(entry, entry.player.totalStrokes))),
+      bestNet: rank(fullRounds.map(entry => toEntry(entry, entry.player.totalStrokes - (entry.player.courseHandicap ?? 0)))),
+      bestPoints: rank(stablefordRounds.map(entry => toEntry(entry, entry.player.totalPoints!)), true),
+      bestHoles,
+      mostHolesInOne: [...holesInOne.values()].sort((a, b) => b.holesInOne - a.holesInOne).slice(0, limit),
+    };
+  }
+
+  /**
+   * Find a played course by its id or name
+   */
+  public findCourseId(nameOrId: string): string | undefined {
+    const search = nameOrId.trim().toLowerCase();
+    return this._rounds.find(round =>
+      round.courseId.toLowerCase() === search || round.courseName.toLowerCase() === search,
+    )?.courseId;
+  }
+
+  /**
+   * One player's view of a stored round
+   */
+  private _summarizeRound(round: RoundRecord, playerId: string): PlayerRoundSummary | undefined {
+    const player = round.players.find(record => record.playerId === playerId);
+    if (!player) return undefined;
+
+    const par = round.pars.reduce((sum, holePar) => sum + holePar, 0);
+
+    return {
+      roundId: round.id,
+      courseId: round.courseId,
+      courseName: round.courseName,
+      mode: round.mode,
+      playedAt: round.playedAt,
+      strokes: [...player.strokes],
+      penalties: [...player.penalties],
+      pars: [...round.pars],
+      strokeIndexes: round.strokeIndexes ? [...round.strokeIndexes] : undefined,
+      courseRating: round.courseRating ?? par,
+      slopeRating: round.slopeRating ?? STANDARD_SLOPE,
+      courseHandicap: player.courseHandicap ?? 0,
+      totalStrokes: player.totalStrokes,
+      toPar: player.totalStrokes - par,
+      finish: 1 + round.players.filter(other => other.totalStrokes < player.totalStrokes).length,
+      playerCount: round.players.length,
+      stats: player.stats,
+      estimatedHoles: [...(player.estimatedHoles ?? [])],
+      matchResult: round.matchResult,
+    };
+  }
+
+  /**
+   * Read stored rounds, starting empty if there are none yet. An unreadable file is
+   * kept aside as rounds.json.corrupt-<timestamp> rather than saved over.
+   */
+  private _load(): void {
+    if (!existsSync(this._filePath)) return;
+
+    try {
+      const file = JSON.parse(readFileSync(this._filePath, 'utf8')) as RoundHistoryFile;
+      this._rounds = Array.isArray(file.rounds) ? file.rounds : [];
+      console.log(`Loaded ${this._rounds.length} rounds from ${this._filePath}`);
+    } catch (error) {
+      this._rounds = [];
+      const corruptPath = `${this._filePath}.corrupt-${Date.now()}`;
+
+      try {
+        renameSync(this._filePath, corruptPath);
+        console.warn(`Could not read round history from ${this._filePath}, kept it as ${corruptPath} and starting fresh:`, error);
+      } catch (renameError) {
+        this._canSave = false;
+        console.error(`Could not read round history from ${this._filePath} or move it aside, so new rounds won't be saved:`, error, renameError);
+      }
+    }
+  }
+
+  /**
+   * Write all rounds, replacing the file in one step so a crash never leaves half a file
+   */
+  private _save(): void {
+    if (!this._canSave) return;
+
+    const file: RoundHistoryFile = { version: 1, rounds: this._rounds };
+    const tempPath = `${this._filePath}.tmp`;
+
+    try {
+      mkdirSync(dirname(this._filePath), { recursive: true });
+      writeFileSync(tempPath, JSON.stringify(file, null, 2));
+      renameSync(tempPath, this._filePath);
+    } catch (error) {
+      console.error(`Could not save round history to ${this._filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+
+import { DEFAULT_GRAVITY, simulateBallFlight } from './BallFlight.ts';
+
+const LAUNCH_ANGLE = Math.PI / 4;
+const LAUNCH_SPEED = 20;
+
+// A 45 degree shot along +x from 2 blocks up, without air resistance unless asked for
+function launch(options: Partial<Parameters<typeof simulateBallFlight>[0]> = {}) {
+  return simulateBallFlight({
+    position: { x: 0, y: 2, z: 0 },
+    direction: { x: Math.cos(LAUNCH_ANGLE), y: Math.sin(LAUNCH_ANGLE), z: 0 },
+    launchSpeed: LAUNCH_SPEED,
+    linearDamping: 0,
+    ...options,
+  });
+}
+
+describe('simulateBallFlight', () => {
+  test('lands back on flat ground at launch height', () => {
+    const flight = launch();
+
+    expect(flight.landed).toBe(true);
+    expect(flight.landing.y).toBeCloseTo(2, 5);
+    expect(flight.landing.z).toBeCloseTo(0, 5);
+    expect(flight.points[0]).toEqual({ x: 0, y: 2, z: 0 });
+    expect(flight.points[flight.points.length - 1]).toEqual(flight.landing);
+    expect(flight.landingVelocity.y).toBeLessThan(0);
+  });
+
+  test('carries as far as projectile range without damping', () => {
+    const flight = launch();
+    const range = (LAUNCH_SPEED ** 2 * Math.sin(2 * LAUNCH_ANGLE)) / DEFAULT_GRAVITY;
+
+    expect(flight.carry).toBeCloseTo(range, 0);
+    expect(flight.carry).toBeCloseTo(flight.landing.x, 5);
+    expect(flight.flightTime).toBeCloseTo((2 * LAUNCH_SPEED * Math.sin(LAUNCH_ANGLE)) / DEFAULT_GRAVITY, 1);
+  });
+
+  test('damping shortens and lowers the flight', () => {
+    const still = launch();
+    const damped = launch({ linearDamping: 0.5 });
+
+    expect(damped.landed).toBe(true);
+    expect(damped.carry).toBeLessThan(still.carry);
+    expect(damped.apex).toBeLessThan(still.apex);
+  });
+
+  test('reaches the apex height of the launch', () => {
+    const flight = launch();
+    const apex = (LAUNCH_SPEED * Math.sin(LAUNCH_ANGLE)) ** 2 / (2 * DEFAULT_GRAVITY);
+
+    expect(flight.apex).toBeCloseTo(apex, 0);
+    expect(Math.max(...flight.points.map(point => point.y)) - 2).toBeCloseTo(flight.apex, 1);
+  });
+
+  test('gives up at the max time when the ball never comes down', () => {
+    const flight = launch({ maxTime: 0.5, groundHeightAt: () => undefined });
+
+    expect(flight.landed).toBe(false);
+    expect(flight.flightTime).toBeCloseTo(0.5, 5);
+    expect(flight.landing).toEqual(flight.points[flight.points.length - 1]!);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Ball Flight - Headless trajectory simulator
+ * 
+ * Steps a golf ball through the air the same way the physics world does:
+ * - Gravity, linear damping, spin (lift and curve) and wind
+ * - Sampled trajectory points for previews
+ * - Landing spot, carry, apex and flight time
+ * 
+ * Has no World dependency so it can run in tests and aim previews.
+ */
+
+import type { Vector3Like } from 'hytopia';
+
+import { AIRBORNE_LINEAR_DAMPING } from './SurfacePhysics.ts';
+import { getWindAcceleration } from './Wind.ts';
+
+export const DEFAULT_GRAVITY = 32;          // Default world gravity (downwards)
+export const DEFAULT_TIME_STEP = 1 / 60;    // Physics tick rate
+
+// Spin effects (spin is measured in revolutions per second)
+export const SPIN_LIFT_COEFFICIENT = 0.0012;  // Upward acceleration per unit backspin per unit speed
+export const SPIN_CURVE_COEFFICIENT = 0.006;  // Sideways acceleration per unit sidespin per unit speed
+export const SPIN_DECAY = 0.15;               // Fraction of spin lost per second in the air
+
+export interface BallSpin {
+  backspin: number;   // Positive is backspin, negative is topspin
+  sidespin: number;   // Positive curves right (slice/fade), negative curves left (hook/draw)
+}
+
+export interface BallFlightOptions {
+  position: Vector3Like;        // Launch position
+  direction: Vector3Like;       // Launch direction (normalized)
+  launchSpeed: number;
+  spin?: BallSpin;
+  wind?: Vector3Like;           // Steady wind velocity; no wind drag when left out
+  gravity?: number;             // Downward acceleration
+  linearDamping?: number;       // Same damping the ball entity uses in the air
+  ballRadius?: number;
+  timeStep?: number;
+  maxTime?: number;             // Give up after this many seconds
+  sampleEvery?: number;         // Record a trajectory point every N steps
+  groundHeightAt?: (position: Vector3Like) => number | undefined; // Defaults to flat ground at launch height
+}
+
+export interface BallFlightResult {
+  points: Vector3Like[];        // Sampled trajectory, including launch and landing
+  landing: Vector3Like;         // Where the ball first comes down
+  landed: boolean;              // False if the flight timed out first
+  carry: number;                // Horizontal distance to landing
+  apex: number;                 // Max height above launch
+  flightTime: number;           // Seconds in the air
+  landingVelocity: Vector3Like;
+}
+
+/**
+ * Acceleration from spin for a ball moving at a velocity
+ */
+export function getSpinAcceleration(velocity: Vector3Like, spin: BallSpin): Vector3Like {
+  const horizontalSpeed = Math.sqrt(velocity.x ** 2 + velocity.z ** 2);
+  if (horizontalSpeed === 0) return { x: 0, y: 0, z: 0 };
+
+  const speed = Math.sqrt(horizontalSpeed ** 2 + velocity.y ** 2);
+
+  // Right of travel, in the horizontal plane
+  const rightX = -velocity.z / horizontalSpeed;
+  const rightZ = velocity.x / horizontalSpeed;
+  const curve = SPIN_CURVE_COEFFICIENT * spin.sidespin * speed;
+
+  return {
+    x: rightX * curve,
+    y: SPIN_LIFT_COEFFICIENT * spin.backspin * horizontalSpeed,
+    z: rightZ * curve,
+  };
+}
+
+/**
+ * Simulate a ball flight until it lands
+ */
+export function simulateBallFlight(options: BallFlightOptions): BallFlightResult {
+  const gravity = options.gravity ?? DEFAULT_GRAVITY;
+  const linearDamping = options.linearDamping ?? AIRBORNE_LINEAR_DAMPING;
+  const ballRadius = options.ballRadius ?? 0;
+  const timeStep = options.timeStep ?? DEFAULT_TIME_STEP;
+  const maxSteps = Math.ceil((options.maxTime ?? 10) / timeStep);
+  const sampleEvery = Math.max(1, options.sampleEvery ?? 1);
+  const launchHeight = options.position.y;
+  const groundHeightAt = options.groundHeightAt ?? (() => launchHeight - ballRadius);
+
+  const position = { ...options.position };
+  const velocity = {
+    x: options.direction.x * options.launchSpeed,
+    y: options.direction.y * options.launchSpeed,
+    z: options.direction.z * options.launchSpeed,
+  };
+  const spin = { ...(options.spin ?? { backspin: 0, sidespin: 0 }) };
+  const wind = options.wind;
+
+  const points: Vector3Like[] = [{ ...position }];
+  let apex = 0;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    // Integrate velocity (gravity + spin + wind), apply damping, then move
+    const spinAcceleration = getSpinAcceleration(velocity, spin);
+    const windAcceleration = wind ? getWindAcceleration(wind, velocity) : { x: 0, y: 0, z: 0 };
+    velocity.x += (spinAcceleration.x + windAcceleration.x) * timeStep;
+    velocity.y += (spinAcceleration.y - gravity) * timeStep;
+    velocity.z += (spinAcceleration.z + windAcceleration.z) * timeStep;
+
+    const damping = 1 / (1 + timeStep * linearDamping);
+    velocity.x *= damping;
+    velocity.y *= damping;
+    velocity.z *= damping;
+
+    const previous = { ...position };
+    position.x += velocity.x * timeStep;
+    position.y += velocity.y * timeStep;
+    position.z += velocity.z * timeStep;
+
+    spin.backspin *= 1 - SPIN_DECAY * timeStep;
+    spin.sidespin *= 1 - SPIN_DECAY * timeStep;
+
+    apex = Math.max(apex, position.y - launchHeight);
+
+    // Landed once the ball comes down onto the ground
+    const groundHeight = groundHeightAt(position);
+    if (velocity.y < 0 && groundHeight !== undefined && position.y - ballRadius <= groundHeight) {
+      const landing = interpolateLanding(previous, position, groundHeight + ballRadius);
+      points.push(landing);
+
+      return {
+        points,
+        landing,
+        landed: true,
+        carry: horizontalDistance(options.position, landing),
+        apex,
+        flightTime: step * timeStep,
+        landingVelocity: { ...velocity },
+      };
+    }
+
+    if (step % sampleEvery === 0) {
+      points.push({ ...position });
+    }
+  }
+
+  return {
+    points,
+    landing: { ...position },
+    landed: false,
+    carry: horizontalDistance(options.position, position),
+    apex,
+    flightTime: maxSteps * timeStep,
+    landingVelocity: { ...velocity },
+  };
+}
+
+/**
+ * Find where between two steps the ball crossed a height
+ */
+function interpolateLanding(from: Vector3Like, to: Vector3Like, height: number): Vector3Like {
+  const drop = from.y - to.y;
+  const t = drop > 0 ? Math.min(1, Math.max(0, (from.y - height) / drop)) : 1;
+
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: height,
+    z: from.z + (to.z - from.z) * t,
+  };
+}
+
+function horizontalDistance(from: Vector3Like, to: Vector3Like): number {
+  return Math.sqrt((to.x - from.x) ** 2 + (to.z - from.z) ** 2);
+}
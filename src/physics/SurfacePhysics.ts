@@ -0,0 +1,113 @@
+/**
+ * Surface Physics - How the ball behaves on each course surface
+ * 
+ * Per-lie tuning for the golf ball:
+ * - Rolling resistance, bounce and friction while on the ground
+ * - How much of a full shot survives when played from the lie
+ * 
+ * Kept free of world dependencies so it can be shared with headless code.
+ */
+
+import type { CourseSurface } from '../course/CourseData.ts';
+
+export type BallLie = 'tee' | 'fairway' | 'rough' | 'bunker' | 'green' | 'water' | 'off-course';
+
+export interface SurfacePhysicsProfile {
+  rollingResistance: number;  // Linear damping while the ball is on this surface
+  angularDamping: number;     // Spin damping while the ball is on this surface
+  restitution: number;        // Bounce (0-1)
+  friction: number;           // Collider friction (0-1)
+  spinGrip: number;           // How strongly landing spin checks or releases the ball (0-1)
+  shotPowerFactor: number;    // Fraction of launch speed kept when hitting from this lie
+}
+
+// Damping while the ball is in the air
+export const AIRBORNE_LINEAR_DAMPING = 0.1;   // Slight air resistance
+export const AIRBORNE_ANGULAR_DAMPING = 0.05; // Minimal spin resistance
+
+// Ball counts as on the ground when its bottom is this close to the surface below
+export const GROUND_CONTACT_TOLERANCE = 0.1;
+
+// A grounded ball slower than this is brought to rest
+export const ROLL_STOP_SPEED = 0.15;
+
+// Landing spin: backspin checks the ball up, topspin releases it forward
+export const SPIN_CHECK_FACTOR = 0.006;    // Horizontal speed lost per unit backspin (times spin grip)
+export const SPIN_RELEASE_FACTOR = 0.01;   // Horizontal speed gained per unit topspin (times spin grip)
+export const MAX_SPIN_BACK = 0.25;         // Fastest a ball can spin back, as a fraction of landing speed
+export const LANDING_SPIN_RETAINED = 0.3;  // Spin left after the first bounce
+
+export const SURFACE_PHYSICS: Record<BallLie, SurfacePhysicsProfile> = {
+  tee: {
+    rollingResistance: 0.6,
+    angularDamping: 0.5,
+    restitution: 0.5,
+    friction: 0.3,
+    spinGrip: 0.7,
+    shotPowerFactor: 1.0,
+  },
+  fairway: {
+    rollingResistance: 0.6,
+    angularDamping: 0.5,
+    restitution: 0.45,
+    friction: 0.3,
+    spinGrip: 0.7,
+    shotPowerFactor: 1.0,
+  },
+  rough: {
+    rollingResistance: 2.0,
+    angularDamping: 2.0,
+    restitution: 0.25,
+    friction: 0.6,
+    spinGrip: 0.3,
+    shotPowerFactor: 0.8,
+  },
+  bunker: {
+    rollingResistance: 4.0,
+    angularDamping: 4.0,
+    restitution: 0.05,
+    friction: 0.9,
+    spinGrip: 0.5,
+    shotPowerFactor: 0.6,
+  },
+  green: {
+    rollingResistance: 0.35,
+    angularDamping: 0.3,
+    restitution: 0.3,
+    friction: 0.2,
+    spinGrip: 1.0,
+    shotPowerFactor: 1.0,
+  },
+  water: {
+    rollingResistance: 6.0,
+    angularDamping: 6.0,
+    restitution: 0,
+    friction: 1.0,
+    spinGrip: 0.0,
+    shotPowerFactor: 0,
+  },
+  'off-course': {
+    rollingResistance: 1.0,
+    angularDamping: 1.0,
+    restitution: 0.4,
+    friction: 0.4,
+    spinGrip: 0.5,
+    shotPowerFactor: 0.9,
+  },
+};
+
+const SURFACE_LIES: Record<CourseSurface, BallLie> = {
+  tee: 'tee',
+  fairway: 'fairway',
+  rough: 'rough',
+  sand: 'bunker',
+  water: 'water',
+  green: 'green',
+};
+
+/**
+ * Get the lie for the course surface under the ball
+ */
+export function getLieForSurface(surface: CourseSurface | undefined): BallLie {
+  return surface ? SURFACE_LIES[surface] : 'off-course';
+}
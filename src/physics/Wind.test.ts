@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'bun:test';
+
+import { getRelativeWindDirection, getWindAcceleration, getWindVelocity } from './Wind.ts';
+
+describe('getWindAcceleration', () => {
+  test('pushes a still ball along with the wind', () => {
+    const acceleration = getWindAcceleration({ x: 5, y: 0, z: -2 }, { x: 0, y: 0, z: 0 });
+
+    expect(acceleration.x).toBeGreaterThan(0);
+    expect(acceleration.z).toBeLessThan(0);
+    expect(acceleration.y).toBe(0);
+  });
+
+  test('leaves a ball drifting at the wind speed alone, and slows one going faster', () => {
+    const wind = { x: 5, y: 0, z: 0 };
+
+    expect(getWindAcceleration(wind, { x: 5, y: -3, z: 0 })).toEqual({ x: 0, y: 0, z: 0 });
+    expect(getWindAcceleration(wind, { x: 8, y: 0, z: 0 }).x).toBeLessThan(0);
+  });
+
+  test('drift levels off at the wind speed', () => {
+    const wind = getWindVelocity({ direction: 90, speed: 6 });
+    const velocity = { x: 0, y: 0, z: 0 };
+    const timeStep = 1 / 60;
+
+    // A long time in the air with nothing but the wind acting sideways
+    for (let step = 0; step < 60 * 120; step++) {
+      const acceleration = getWindAcceleration(wind, velocity);
+      velocity.x += acceleration.x * timeStep;
+      velocity.z += acceleration.z * timeStep;
+    }
+
+    expect(velocity.z).toBeCloseTo(6, 2);
+    expect(velocity.x).toBeCloseTo(0, 5);
+  });
+});
+
+describe('getRelativeWindDirection', () => {
+  test('measures the wind against the line of play', () => {
+    const from = { x: 0, y: 0, z: 0 };
+    const to = { x: 10, y: 0, z: 0 };
+
+    expect(getRelativeWindDirection({ direction: 0, speed: 5 }, from, to)).toBe(0);
+    expect(getRelativeWindDirection({ direction: 180, speed: 5 }, from, to)).toBe(-180);
+    expect(getRelativeWindDirection({ direction: 90, speed: 5 }, from, to)).toBe(90);
+  });
+});
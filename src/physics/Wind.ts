@@ -0,0 +1,101 @@
+/**
+ * Wind - Per-hole wind and gusts
+ *
+ * Describes the wind on a hole and how it pushes a ball in the air:
+ * - Steady direction and speed, scripted by the course or picked at random
+ * - Gusts that build and fade over time, veering the wind slightly
+ * - Drag from the wind relative to the ball
+ *
+ * Has no World dependency so it can run in tests and aim previews.
+ */
+
+import type { Vector3Like } from 'hytopia';
+
+import { AIRBORNE_LINEAR_DAMPING } from './SurfacePhysics.ts';
+
+// Drag pulling the ball's horizontal speed towards the wind's, as strong as the
+// damping the ball gets from still air
+export const WIND_DRAG_COEFFICIENT = AIRBORNE_LINEAR_DAMPING;
+
+// Random wind when the course does not script one
+const MAX_RANDOM_WIND_SPEED = 8;
+const MAX_RANDOM_GUST = 4;
+
+// Gusts come and go on two slow overlapping cycles (seconds) and veer the wind a little
+const GUST_PERIOD = 11;
+const GUST_MODULATION_PERIOD = 29;
+const GUST_VEER_DEGREES = 15;
+
+export interface WindSettings {
+  direction: number;  // Degrees the wind blows towards: 0 is +x, 90 is +z
+  speed: number;      // Steady speed
+  gust?: number;      // Extra speed at the peak of a gust
+}
+
+/**
+ * Pick a random wind for a hole
+ */
+export function createRandomWind(random: () => number = Math.random): WindSettings {
+  const speed = Math.round(random() * MAX_RANDOM_WIND_SPEED * 10) / 10;
+
+  return {
+    direction: Math.round(random() * 360),
+    speed,
+    gust: speed > 0 ? Math.round(random() * MAX_RANDOM_GUST * 10) / 10 : 0,
+  };
+}
+
+/**
+ * Wind velocity at a time (seconds); without a time the steady wind is returned
+ */
+export function getWindVelocity(wind: WindSettings, timeSeconds?: number): Vector3Like {
+  let speed = wind.speed;
+  let direction = wind.direction;
+
+  if (timeSeconds !== undefined && wind.gust) {
+    const gustStrength = getGustStrength(timeSeconds);
+    speed += wind.gust * gustStrength;
+    direction += GUST_VEER_DEGREES * gustStrength * Math.sin((2 * Math.PI * timeSeconds) / GUST_MODULATION_PERIOD);
+  }
+
+  const radians = (direction * Math.PI) / 180;
+
+  return {
+    x: Math.cos(radians) * speed,
+    y: 0,
+    z: Math.sin(radians) * speed,
+  };
+}
+
+/**
+ * Extra acceleration on a ball in the air from the wind: drag from the wind
+ * relative to the ball, so a ball already drifting at the wind's speed is left alone
+ */
+export function getWindAcceleration(windVelocity: Vector3Like, ballVelocity: Vector3Like): Vector3Like {
+  return {
+    x: (windVelocity.x - ballVelocity.x) * WIND_DRAG_COEFFICIENT,
+    y: 0,
+    z: (windVelocity.z - ballVelocity.z) * WIND_DRAG_COEFFICIENT,
+  };
+}
+
+/**
+ * Wind direction relative to a line of play in degrees: 0 is helping, 180 is straight into
+ * the player, positive blows from left to right
+ */
+export function getRelativeWindDirection(wind: WindSettings, from: Vector3Like, to: Vector3Like): number {
+  const lineOfPlay = (Math.atan2(to.z - from.z, to.x - from.x) * 180) / Math.PI;
+  const relative = (((wind.direction - lineOfPlay) % 360) + 540) % 360 - 180;
+
+  return Math.round(relative);
+}
+
+/**
+ * How far into a gust the wind is at a time (0 calm to 1 peak)
+ */
+function getGustStrength(timeSeconds: number): number {
+  const gust = Math.sin((2 * Math.PI * timeSeconds) / GUST_PERIOD);
+  const modulation = Math.sin((2 * Math.PI * timeSeconds) / GUST_MODULATION_PERIOD + 1.3);
+
+  return Math.max(0, gust * modulation);
+}
@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'bun:test';
+
+import ShotRecorder, {
+  exportShot,
+  importShot,
+  MAX_SHOT_SAMPLES,
+  SHOT_SAMPLE_INTERVAL_MS,
+  type ShotDetails,
+} from './ShotRecorder.ts';
+
+const START = Date.parse('2026-01-01T10:00:00.000Z');
+
+function details(playerId: string = 'ann', strokeNumber: number = 1): ShotDetails {
+  return {
+    playerId,
+    playerName: playerId.toUpperCase(),
+    holeNumber: 1,
+    strokeNumber,
+    club: 'Driver',
+    power: 80,
+    startLie: 'tee',
+    startSurface: 'tee',
+    from: { x: 0, y: 1, z: 0 },
+  };
+}
+
+// Hit a shot straight along +x that finishes the given distance away
+function playShot(recorder: ShotRecorder, distance: number, endLie: Parameters<ShotRecorder['finish']>[1] = 'fairway', playerId: string = 'ann') {
+  recorder.start(details(playerId), START);
+  return recorder.finish(playerId, endLie, { x: distance, y: 1, z: 0 }, 'fairway', START + 1000)!;
+}
+
+describe('ShotRecorder', () => {
+  test('records a shot from the hit to where the ball stops', () => {
+    const recorder = new ShotRecorder();
+    recorder.start(details(), START);
+    recorder.addSample('ann', { x: 1.234, y: 2.345, z: 0 }, START + SHOT_SAMPLE_INTERVAL_MS);
+    recorder.markLanding('ann', { x: 5, y: 1, z: 0 });
+    recorder.markLanding('ann', { x: 7, y: 1, z: 0 });
+
+    const shot = recorder.finish('ann', 'fairway', { x: 9, y: 1, z: 0 }, 'fairway', START + 2000)!;
+    expect(shot.samples).toEqual([
+      { t: 0, x: 0, y: 1, z: 0 },
+      { t: SHOT_SAMPLE_INTERVAL_MS, x: 1.23, y: 2.35, z: 0 },
+      { t: 2000, x: 9, y: 1, z: 0 },
+    ]);
+    expect(shot.landing).toEqual({ x: 5, y: 1, z: 0 });
+    expect(shot.to).toEqual({ x: 9, y: 1, z: 0 });
+    expect(shot.endLie).toBe('fairway');
+    expect(shot.playedAt).toBe('2026-01-01T10:00:00.000Z');
+    expect(recorder.getShots()).toEqual([shot]);
+  });
+
+  test('samples no more often than the sample interval', () => {
+    const recorder = new ShotRecorder();
+    recorder.start(details(), START);
+    for (let elapsed = 10; elapsed <= 200; elapsed += 10) {
+      recorder.addSample('ann', { x: elapsed, y: 1, z: 0 }, START + elapsed);
+    }
+
+    const shot = recorder.finish('ann', 'fairway', { x: 200, y: 1, z: 0 }, 'fairway', START + 200)!;
+    expect(shot.samples.map(sample => sample.t)).toEqual([0, 50, 100, 150, 200, 200]);
+  });
+
+  test('stops sampling at the most samples a shot keeps', () => {
+    const recorder = new ShotRecorder();
+    recorder.start(details(), START);
+    for (let index = 1; index <= MAX_SHOT_SAMPLES + 10; index++) {
+      recorder.addSample('ann', { x: index, y: 1, z: 0 }, START + index * SHOT_SAMPLE_INTERVAL_MS);
+    }
+
+    expect(recorder.finish('ann', 'rough', { x: 1, y: 1, z: 0 }, 'rough')!.samples).toHaveLength(MAX_SHOT_SAMPLES + 1);
+  });
+
+  test('cancelled and unstarted shots are never finished', () => {
+    const recorder = new ShotRecorder();
+    recorder.start(details(), START);
+    recorder.cancel('ann');
+
+    expect(recorder.finish('ann', 'fairway', { x: 1, y: 1, z: 0 }, 'fairway')).toBeUndefined();
+    expect(recorder.getShots()).toEqual([]);
+  });
+
+  test('finds the last shot, by anyone or by one player', () => {
+    const recorder = new ShotRecorder();
+    const first = playShot(recorder, 10, 'fairway', 'ann');
+    const second = playShot(recorder, 20, 'fairway', 'bob');
+
+    expect(recorder.getLastShot()).toBe(second);
+    expect(recorder.getLastShot('ann')).toBe(first);
+    expect(recorder.getLastShot('cat')).toBeUndefined();
+  });
+
+  test('best shot is a holed shot first, then the longest still in play', () => {
+    const recorder = new ShotRecorder();
+    playShot(recorder, 150, 'water');
+    playShot(recorder, 200, 'out-of-bounds');
+    const long = playShot(recorder, 120, 'fairway');
+
+    expect(recorder.getBestShot()).toBe(long);
+
+    const holed = playShot(recorder, 3, 'holed');
+    expect(recorder.getBestShot()).toBe(holed);
+    expect(recorder.getBestShot('bob')).toBeUndefined();
+  });
+
+  test('clear forgets the round', () => {
+    const recorder = new ShotRecorder();
+    playShot(recorder, 10);
+    recorder.clear();
+
+    expect(recorder.getShots()).toEqual([]);
+  });
+});
+
+describe('sharing shots', () => {
+  test('exported shots import back the same', () => {
+    const shot = playShot(new ShotRecorder(), 42);
+
+    expect(importShot(exportShot(shot))).toEqual(shot);
+  });
+
+  test('anything that isn\'t a shot recording is turned away', () => {
+    const shot = playShot(new ShotRecorder(), 42);
+
+    expect(importShot('not json')).toBeUndefined();
+    expect(importShot(JSON.stringify({ version: 99, shot }))).toBeUndefined();
+    expect(importShot(JSON.stringify({ version: 1, shot: { ...shot, samples: undefined } }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Shot Recorder - Ball paths for replays and shot stats
+ *
+ * Records every stroke of a round so it can be watched again:
+ * - Position samples taken from the ball's tick while it moves
+ * - Club, power, where the ball first landed and the lie and surface before and after the shot
+ * - The last shot and the best shot of the round
+ * - JSON export for sharing a shot
+ *
+ * Pure class with no World dependency; the game manager feeds it samples.
+ */
+
+import type { Vector3Like } from 'hytopia';
+
+import type { CourseSurface } from '../course/CourseData.ts';
+import type { BallLie } from '../physics/SurfacePhysics.ts';
+
+// Samples are taken at most this often, and a shot keeps at most this many
+export const SHOT_SAMPLE_INTERVAL_MS = 50;
+export const MAX_SHOT_SAMPLES = 600;
+
+export const SHOT_RECORDING_VERSION = 1;
+
+// Where a shot finished: a lie, or gone from play
+export type ShotResult = BallLie | 'holed' | 'out-of-bounds';
+
+export interface ShotSample {
+  t: number;                // Milliseconds since the ball was hit
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface ShotRecording {
+  id: string;
+  playerId: string;
+  playerName: string;
+  holeNumber: number;
+  strokeNumber: number;
+  club: string;
+  power: number;            // Percent of full power
+  startLie: BallLie;
+  endLie: ShotResult | undefined; // Undefined while the ball is still moving
+  startSurface: CourseSurface | undefined; // Course block under the ball, undefined off the course
+  endSurface: CourseSurface | undefined;
+  from: Vector3Like;
+  landing: Vector3Like | undefined;        // Where the ball first came down
+  to: Vector3Like | undefined;
+  samples: ShotSample[];
+  playedAt: string;         // ISO date
+}
+
+export type ShotDetails = Pick<ShotRecording, 'playerId' | 'playerName' | 'holeNumber' | 'strokeNumber' | 'club' | 'power' | 'startLie' | 'startSurface' | 'from'>;
+
+/**
+ * Horizontal distance the ball travelled
+ */
+export function getShotDistance(shot: ShotRecording): number {
+  const to = shot.to ?? shot.from;
+  return Math.sqrt((to.x - shot.from.x) ** 2 + (to.z - shot.from.z) ** 2);
+}
+
+/**
+ * Rank shots for "best of the round": holed shots first, longest first,
+ * then the longest shots that stayed in play
+ */
+export function pickBestShot(shots: ShotRecording[]): ShotRecording | undefined {
+  const inPlay = shots.filter(shot => shot.endLie && shot.endLie !== 'water' && shot.endLie !== 'out-of-bounds');
+
+  return [...inPlay].sort((a, b) =>
+    Number(b.endLie === 'holed') - Number(a.endLie === 'holed') || getShotDistance(b) - getShotDistance(a),
+  )[0];
+}
+
+/**
+ * Share a shot as JSON
+ */
+export function exportShot(shot: ShotRecording): string {
+  return JSON.stringify({ version: SHOT_RECORDING_VERSION, shot });
+}
+
+/**
+ * Read a shared shot back; undefined if the JSON isn't a shot recording
+ */
+export function importShot(json: string): ShotRecording | undefined {
+  try {
+    const data = JSON.parse(json);
+    const shot = data?.shot;
+    if (data?.version !== SHOT_RECORDING_VERSION || !Array.isArray(shot?.samples)) return undefined;
+    return shot as ShotRecording;
+  } catch {
+    return undefined;
+  }
+}
+
+export default class ShotRecorder {
+  private _active: Map<string, { shot: ShotRecording; startedAt: number }> = new Map(); // Player id to shot in play
+  private _shots: ShotRecording[] = [];       // Finished shots, in the order they were played
+  private _nextId: number = 1;
+
+  /**
+   * Start recording a shot the moment the ball is hit
+   */
+  public start(details: ShotDetails, now: number = Date.now()): ShotRecording {
+    const shot: ShotRecording = {
+      ...details,
+      id: `shot-${this._nextId++}`,
+      from: { ...details.from },
+      endLie: undefined,
+      endSurface: undefined,
+      landing: undefined,
+      to: undefined,
+      samples: [this._toSample(details.from, 0)],
+      playedAt: new Date(now).toISOString(),
+    };
+
+    this._active.set(details.playerId, { shot, startedAt: now });
+    return shot;
+  }
+
+  /**
+   * Add where the player's ball is now, if enough time has passed since the last sample
+   */
+  public addSample(playerId: string, position: Vector3Like, now: number = Date.now()): void {
+    const active = this._active.get(playerId);
+    if (!active || active.shot.samples.length >= MAX_SHOT_SAMPLES) return;
+
+    const elapsed = now - active.startedAt;
+    const last = active.shot.samples[active.shot.samples.length - 1];
+    if (last && elapsed - last.t < SHOT_SAMPLE_INTERVAL_MS) return;
+
+    active.shot.samples.push(this._toSample(position, elapsed));
+  }
+
+  /**
+   * Note where the player's ball first came down, for its carry
+   */
+  public markLanding(playerId: string, position: Vector3Like): void {
+    const active = this._active.get(playerId);
+    if (!active || active.shot.landing) return;
+
+    active.shot.landing = { ...position };
+  }
+
+  /**
+   * Finish the player's shot where the ball ended up
+   */
+  public finish(
+    playerId: string,
+    endLie: ShotResult,
+    position: Vector3Like,
+    endSurface: CourseSurface | undefined,
+    now: number = Date.now(),
+  ): ShotRecording | undefined {
+    const active = this._active.get(playerId);
+    if (!active) return undefined;
+
+    this._active.delete(playerId);
+    active.shot.samples.push(this._toSample(position, now - active.startedAt));
+    active.shot.endLie = endLie;
+    active.shot.endSurface = endSurface;
+    active.shot.to = { ...position };
+    this._shots.push(active.shot);
+    return active.shot;
+  }
+
+  /**
+   * Drop a shot that never finished (the ball was picked up mid-flight)
+   */
+  public cancel(playerId: string): void {
+    this._active.delete(playerId);
+  }
+
+  /**
+   * The most recent finished shot, by anyone or by one player
+   */
+  public getLastShot(playerId?: string): ShotRecording | undefined {
+    return [...this._shots].reverse().find(shot => !playerId || shot.playerId === playerId);
+  }
+
+  /**
+   * The best shot of the round, by anyone or by one player
+   */
+  public getBestShot(playerId?: string): ShotRecording | undefined {
+    return pickBestShot(this._shots.filter(shot => !playerId || shot.playerId === playerId));
+  }
+
+  /**
+   * Every finished shot of the round
+   */
+  public getShots(): ShotRecording[] {
+    return [...this._shots];
+  }
+
+  /**
+   * Forget the round's shots when a new game starts
+   */
+  public clear(): void {
+    this._active.clear();
+    this._shots = [];
+  }
+
+  private _toSample(position: Vector3Like, t: number): ShotSample {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return { t, x: round(position.x), y: round(position.y), z: round(position.z) };
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  allocateHandicapStrokes,
+  calculateHandicapIndex,
+  getAdjustedGross,
+  getCourseHandicap,
+  getScoreDifferential,
+  MAX_HANDICAP_INDEX,
+  type HandicapRound,
+} from './Handicap.ts';
+
+// Three pars of four, rated so the round's differential comes out as asked
+function roundWithDifferential(differential: number): HandicapRound {
+  return { strokes: [4, 4, 4], pars: [4, 4, 4], courseRating: 12 - differential, slopeRating: 113, courseHandicap: 0 };
+}
+
+describe('calculateHandicapIndex', () => {
+  test('needs at least three rounds', () => {
+    expect(calculateHandicapIndex([])).toBeUndefined();
+    expect(calculateHandicapIndex([roundWithDifferential(10), roundWithDifferential(12)])).toBeUndefined();
+  });
+
+  // Rounds played, lowest differentials used, adjustment
+  const table: [number, number, number][] = [
+    [3, 1, -2],
+    [4, 1, -1],
+    [5, 1, 0],
+    [6, 2, -1],
+    [7, 2, 0],
+    [8, 2, 0],
+    [9, 3, 0],
+    [11, 3, 0],
+    [12, 4, 0],
+    [14, 4, 0],
+    [15, 5, 0],
+    [16, 5, 0],
+    [17, 6, 0],
+    [18, 6, 0],
+    [19, 7, 0],
+    [20, 8, 0],
+  ];
+
+  test.each(table)('%i rounds use the lowest %i differentials adjusted by %i', (rounds, count, adjustment) => {
+    // Differentials 10, 11, 12... played in a mixed-up order
+    const differentials = Array.from({ length: rounds }, (_, index) => 10 + ((index * 13) % rounds));
+    const lowest = [...differentials].sort((a, b) => a - b).slice(0, count);
+    const expected = Math.round((lowest.reduce((sum, value) => sum + value, 0) / count + adjustment) * 10) / 10;
+
+    expect(calculateHandicapIndex(differentials.map(roundWithDifferential))).toBe(expected);
+  });
+
+  test('rounds to the nearest tenth', () => {
+    // Eight rounds use the lowest two, here averaging 12.25
+    const rounds = [12.1, 12.4, 20, 20, 20, 20, 20, 20].map(roundWithDifferential);
+
+    expect(calculateHandicapIndex(rounds)).toBe(12.3);
+  });
+
+  test('plus handicaps round towards scratch, not away from it', () => {
+    // Lowest two of six average 0.95, less the one stroke adjustment
+    const rounds = [0.9, 1, 5, 5, 5, 5].map(roundWithDifferential);
+
+    expect(calculateHandicapIndex(rounds)).toBe(0);
+    expect(calculateHandicapIndex([0.8, 1, 5, 5, 5, 5].map(roundWithDifferential))).toBe(-0.1);
+  });
+
+  test('only the most recent twenty rounds count', () => {
+    const oldBest = Array.from({ length: 5 }, () => roundWithDifferential(0));
+    const recent = Array.from({ length: 20 }, () => roundWithDifferential(15));
+
+    expect(calculateHandicapIndex([...oldBest, ...recent])).toBe(15);
+  });
+
+  test('caps the index at the maximum', () => {
+    const rounds = Array.from({ length: 5 }, () => roundWithDifferential(80));
+    expect(calculateHandicapIndex(rounds)).toBe(MAX_HANDICAP_INDEX);
+  });
+});
+
+describe('score differentials', () => {
+  test('caps each hole at net double bogey', () => {
+    const round: HandicapRound = { strokes: [10, 4, 9], pars: [4, 4, 4], strokeIndexes: [1, 2, 3], courseRating: 12, slopeRating: 113, courseHandicap: 0 };
+
+    expect(getAdjustedGross(round)).toBe(6 + 4 + 6);
+    expect(getAdjustedGross({ ...round, courseHandicap: 1 })).toBe(7 + 4 + 6);
+  });
+
+  test('scales by slope', () => {
+    const round: HandicapRound = { strokes: [5, 5, 5], pars: [4, 4, 4], courseRating: 12, slopeRating: 126, courseHandicap: 0 };
+
+    expect(getScoreDifferential(round)).toBe(Math.round((113 / 126) * 3 * 10) / 10);
+  });
+});
+
+describe('course handicaps', () => {
+  test('scale the index by slope and add rating minus par', () => {
+    expect(getCourseHandicap(10, 72, 113, 72)).toBe(10);
+    expect(getCourseHandicap(10, 73.5, 130, 72)).toBe(Math.round(10 * (130 / 113) + 1.5));
+  });
+
+  test('give strokes on the hardest holes first', () => {
+    const strokeIndexes = [3, 1, 4, 2];
+
+    expect(allocateHandicapStrokes(0, strokeIndexes)).toEqual([0, 0, 0, 0]);
+    expect(allocateHandicapStrokes(2, strokeIndexes)).toEqual([0, 1, 0, 1]);
+    expect(allocateHandicapStrokes(6, strokeIndexes)).toEqual([1, 2, 1, 2]);
+  });
+
+  test('plus handicaps give strokes back on the easiest holes', () => {
+    expect(allocateHandicapStrokes(-1, [3, 1, 4, 2])).toEqual([0, 0, -1, 0]);
+    expect(allocateHandicapStrokes(-2, [3, 1, 4, 2])).toEqual([-1, 0, -1, 0]);
+  });
+});
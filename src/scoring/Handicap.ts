@@ -0,0 +1,120 @@
+/**
+ * Handicap - WHS-style handicap index and net scoring
+ *
+ * Levels the field between first-timers and scratch players:
+ * - Score differentials from adjusted gross, course rating and slope
+ * - Handicap index from the best recent differentials
+ * - Course handicap and per-hole stroke allocation by stroke index
+ *
+ * Pure functions with no World dependency.
+ */
+
+export const STANDARD_SLOPE = 113;
+export const MAX_HANDICAP_INDEX = 54;
+
+// Only the most recent rounds count towards the index
+export const HANDICAP_ROUND_WINDOW = 20;
+
+// Fewest rounds before a player gets an index
+export const MIN_HANDICAP_ROUNDS = 3;
+
+// How many of the lowest differentials count (and any adjustment) for each number of rounds
+const DIFFERENTIALS_USED: { rounds: number; count: number; adjustment: number }[] = [
+  { rounds: 3, count: 1, adjustment: -2 },
+  { rounds: 4, count: 1, adjustment: -1 },
+  { rounds: 5, count: 1, adjustment: 0 },
+  { rounds: 6, count: 2, adjustment: -1 },
+  { rounds: 8, count: 2, adjustment: 0 },
+  { rounds: 11, count: 3, adjustment: 0 },
+  { rounds: 14, count: 4, adjustment: 0 },
+  { rounds: 16, count: 5, adjustment: 0 },
+  { rounds: 18, count: 6, adjustment: 0 },
+  { rounds: 19, count: 7, adjustment: 0 },
+  { rounds: 20, count: 8, adjustment: 0 },
+];
+
+export interface HandicapRound {
+  strokes: number[];        // Gross strokes per hole
+  pars: number[];
+  strokeIndexes?: number[]; // Hole difficulty order, 1 is hardest
+  courseRating: number;
+  slopeRating: number;
+  courseHandicap: number;   // Handicap the round was played off
+}
+
+/**
+ * Cap each hole at net double bogey before working out a differential
+ */
+export function getAdjustedGross(round: HandicapRound): number {
+  const strokesReceived = allocateHandicapStrokes(round.courseHandicap, getStrokeIndexes(round));
+
+  return round.strokes.reduce((total, strokes, holeIndex) => {
+    const maxScore = (round.pars[holeIndex] ?? strokes) + 2 + (strokesReceived[holeIndex] ?? 0);
+    return total + Math.min(strokes, maxScore);
+  }, 0);
+}
+
+/**
+ * Score differential for a round
+ */
+export function getScoreDifferential(round: HandicapRound): number {
+  const differential = (STANDARD_SLOPE / round.slopeRating) * (getAdjustedGross(round) - round.courseRating);
+  return Math.round(differential * 10) / 10;
+}
+
+/**
+ * Handicap index from rounds, oldest first; undefined until there are enough rounds
+ */
+export function calculateHandicapIndex(rounds: HandicapRound[]): number | undefined {
+  const recent = rounds.slice(-HANDICAP_ROUND_WINDOW);
+  if (recent.length < MIN_HANDICAP_ROUNDS) return undefined;
+
+  const rule = DIFFERENTIALS_USED.find(entry => recent.length <= entry.rounds) ?? DIFFERENTIALS_USED[DIFFERENTIALS_USED.length - 1]!;
+  const lowest = recent
+    .map(round => getScoreDifferential(round))
+    .sort((a, b) => a - b)
+    .slice(0, rule.count);
+
+  // Averaged in tenths, as differentials are kept, so rounding to the nearest tenth
+  // doesn't pick up floating point error (adding 0 turns -0 into 0)
+  const averageTenths = lowest.reduce((sum, differential) => sum + Math.round(differential * 10), 0) / lowest.length;
+  const index = (Math.round(averageTenths + rule.adjustment * 10) + 0) / 10;
+
+  return Math.min(index, MAX_HANDICAP_INDEX);
+}
+
+/**
+ * Strokes a player receives on a course with a given rating and slope
+ */
+export function getCourseHandicap(handicapIndex: number, courseRating: number, slopeRating: number, par: number): number {
+  return Math.round(handicapIndex * (slopeRating / STANDARD_SLOPE) + (courseRating - par));
+}
+
+/**
+ * Share a course handicap out over the holes by stroke index (1 is the hardest hole).
+ * Plus handicaps give strokes back, starting on the easiest holes.
+ */
+export function allocateHandicapStrokes(courseHandicap: number, strokeIndexes: number[]): number[] {
+  const holeCount = strokeIndexes.length;
+  if (holeCount === 0 || courseHandicap === 0) return strokeIndexes.map(() => 0);
+
+  const handicap = Math.abs(courseHandicap);
+  const everyHole = Math.floor(handicap / holeCount);
+  const remainder = handicap % holeCount;
+
+  return strokeIndexes.map(strokeIndex => {
+    const extra = courseHandicap > 0
+      ? strokeIndex <= remainder
+      : strokeIndex > holeCount - remainder;
+
+    const strokes = everyHole + (extra ? 1 : 0);
+    return courseHandicap > 0 || strokes === 0 ? strokes : -strokes;
+  });
+}
+
+/**
+ * Stroke indexes for a round, falling back to hole order
+ */
+function getStrokeIndexes(round: HandicapRound): number[] {
+  return round.strokeIndexes ?? round.strokes.map((_, holeIndex) => holeIndex + 1);
+}
@@ -0,0 +1,162 @@
+/**
+ * Match Play - Hole-by-hole match between two sides
+ *
+ * Tracks a match the way it is called on the course:
+ * - Each hole is won, halved or lost (lowest score wins, concessions lose)
+ * - Standings such as "2 UP with 3 to play" or "Dormie"
+ * - Ends the match as soon as it is mathematically decided ("3 & 2")
+ *
+ * Pure class with no World dependency.
+ */
+
+export interface MatchSide {
+  id: string;
+  name: string;
+  playerIds: string[];
+}
+
+export interface MatchHoleResult {
+  holeIndex: number;
+  winner: string | undefined;   // Winning side id, undefined if halved
+  conceded: boolean;            // The losing side conceded the hole
+  scores: Record<string, number | undefined>; // Each side's score, if it finished
+}
+
+export interface MatchStatus {
+  sides: { id: string; name: string; holesWon: number }[];
+  leader: string | undefined;   // Side id, undefined when all square
+  leaderName: string | undefined;
+  holesUp: number;
+  holesPlayed: number;
+  holesToPlay: number;
+  dormie: boolean;              // Leader is up by as many holes as are left
+  decided: boolean;
+  description: string;          // e.g. "Alice 2 UP with 3 to play"
+}
+
+export default class MatchPlay {
+  private _sides: [MatchSide, MatchSide];
+  private _totalHoles: number;
+  private _results: Map<number, MatchHoleResult> = new Map();
+
+  constructor(sides: [MatchSide, MatchSide], totalHoles: number) {
+    this._sides = sides;
+    this._totalHoles = totalHoles;
+  }
+
+  /**
+   * Get both sides of the match
+   */
+  public getSides(): [MatchSide, MatchSide] {
+    return this._sides;
+  }
+
+  /**
+   * Find the side a player is on
+   */
+  public getSideForPlayer(playerId: string): MatchSide | undefined {
+    return this._sides.find(side => side.playerIds.includes(playerId));
+  }
+
+  /**
+   * Check whether a hole already has a result
+   */
+  public hasResult(holeIndex: number): boolean {
+    return this._results.has(holeIndex);
+  }
+
+  /**
+   * Get every recorded hole result in hole order
+   */
+  public getResults(): MatchHoleResult[] {
+    return [...this._results.values()].sort((a, b) => a.holeIndex - b.holeIndex);
+  }
+
+  /**
+   * Settle a hole from each side's score; a side that didn't finish loses to one that did
+   */
+  public recordHole(holeIndex: number, scores: Record<string, number | undefined>): MatchHoleResult {
+    const [first, second] = this._sides;
+    const firstScore = scores[first.id];
+    const secondScore = scores[second.id];
+
+    let winner: string | undefined;
+    if (firstScore !== undefined && (secondScore === undefined || firstScore < secondScore)) {
+      winner = first.id;
+    } else if (secondScore !== undefined && (firstScore === undefined || secondScore < firstScore)) {
+      winner = second.id;
+    }
+
+    return this._setResult({ holeIndex, winner, conceded: false, scores });
+  }
+
+  /**
+   * Give a hole to the other side
+   */
+  public concedeHole(holeIndex: number, concedingSideId: string): MatchHoleResult {
+    const winner = this._sides.find(side => side.id !== concedingSideId);
+
+    return this._setResult({ holeIndex, winner: winner?.id, conceded: true, scores: {} });
+  }
+
+  /**
+   * Check whether the trailing side can no longer catch up
+   */
+  public isDecided(): boolean {
+    return this.getStatus().decided;
+  }
+
+  /**
+   * Current standings
+   */
+  public getStatus(): MatchStatus {
+    const sides = this._sides.map(side => ({
+      id: side.id,
+      name: side.name,
+      holesWon: this.getResults().filter(result => result.winner === side.id).length,
+    }));
+
+    const [first, second] = sides;
+    const holesPlayed = this._results.size;
+    const holesToPlay = this._totalHoles - holesPlayed;
+    const holesUp = Math.abs(first!.holesWon - second!.holesWon);
+    const leader = first!.holesWon > second!.holesWon ? first : second!.holesWon > first!.holesWon ? second : undefined;
+    const decided = holesUp > holesToPlay || holesToPlay === 0;
+    const dormie = !decided && !!leader && holesUp === holesToPlay;
+
+    return {
+      sides,
+      leader: leader?.id,
+      leaderName: leader?.name,
+      holesUp,
+      holesPlayed,
+      holesToPlay,
+      dormie,
+      decided,
+      description: this._describe(leader?.name, holesUp, holesToPlay, decided, dormie),
+    };
+  }
+
+  private _setResult(result: MatchHoleResult): MatchHoleResult {
+    this._results.set(result.holeIndex, result);
+    return result;
+  }
+
+  /**
+   * Call the match the way a referee would
+   */
+  private _describe(leaderName: string | undefined, holesUp: number, holesToPlay: number, decided: boolean, dormie: boolean): string {
+    if (!leaderName) {
+      if (decided) return 'Match halved';
+      return `All square with ${holesToPlay} to play`;
+    }
+
+    if (decided) {
+      return holesToPlay === 0
+        ? `${leaderName} wins ${holesUp} UP`
+        : `${leaderName} wins ${holesUp} & ${holesToPlay}`;
+    }
+
+    return `${leaderName} ${holesUp} UP with ${holesToPlay} to play${dormie ? ' (dormie)' : ''}`;
+  }
+}
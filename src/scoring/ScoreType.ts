@@ -0,0 +1,40 @@
+/**
+ * Score Type - Names for a hole score relative to par
+ *
+ * Shared by the hole-complete messages and points-based formats.
+ */
+
+export type RelativeScoreType =
+  | 'albatross'
+  | 'eagle'
+  | 'birdie'
+  | 'par'
+  | 'bogey'
+  | 'double-bogey'
+  | 'triple-bogey+';
+
+export type ScoreType = 'hole-in-one' | RelativeScoreType;
+
+/**
+ * Name a score relative to par, ignoring holes in one
+ */
+export function getRelativeScoreType(strokes: number, par: number): RelativeScoreType {
+  if (strokes < par) {
+    const under = par - strokes;
+    return under === 1 ? 'birdie' : under === 2 ? 'eagle' : 'albatross';
+  }
+
+  if (strokes > par) {
+    const over = strokes - par;
+    return over === 1 ? 'bogey' : over === 2 ? 'double-bogey' : 'triple-bogey+';
+  }
+
+  return 'par';
+}
+
+/**
+ * Name a score, calling out holes in one
+ */
+export function getScoreType(strokes: number, par: number): ScoreType {
+  return strokes === 1 ? 'hole-in-one' : getRelativeScoreType(strokes, par);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { CourseSurface } from '../course/CourseData.ts';
+import type { ShotRecording, ShotResult } from '../replay/ShotRecorder.ts';
+import { calculateRoundStats, measureShot } from './ShotStats.ts';
+
+// A shot along +x on a hole, from one surface to another
+function shot(
+  holeNumber: number,
+  strokeNumber: number,
+  startSurface: CourseSurface | undefined,
+  endSurface: CourseSurface | undefined,
+  distance: number = 10,
+  endLie: ShotResult = endSurface === 'sand' ? 'bunker' : endSurface ?? 'off-course',
+): ShotRecording {
+  return {
+    id: `shot-${holeNumber}-${strokeNumber}`,
+    playerId: 'ann',
+    playerName: 'ANN',
+    holeNumber,
+    strokeNumber,
+    club: 'Driver',
+    power: 100,
+    startLie: strokeNumber === 1 ? 'tee' : 'fairway',
+    endLie,
+    startSurface,
+    endSurface,
+    from: { x: 0, y: 0, z: 0 },
+    landing: undefined,
+    to: { x: distance, y: 0, z: 0 },
+    samples: [],
+    playedAt: '2026-01-01T10:00:00.000Z',
+  };
+}
+
+describe('measureShot', () => {
+  test('splits the distance into carry and roll and finds the apex', () => {
+    const measured = measureShot({
+      ...shot(1, 1, 'tee', 'fairway', 100),
+      landing: { x: 80, y: 0, z: 0 },
+      samples: [{ t: 0, x: 0, y: 0, z: 0 }, { t: 1000, x: 40, y: 12.34, z: 0 }],
+    });
+
+    expect(measured).toEqual({ carry: 80, roll: 20, total: 100, apex: 12.3 });
+  });
+
+  test('backspin pulling the ball back rolls it a negative distance', () => {
+    const measured = measureShot({ ...shot(1, 2, 'fairway', 'green', 30), landing: { x: 33, y: 0, z: 0 } });
+
+    expect(measured.roll).toBe(-3);
+  });
+
+  test('a shot that never landed carries its whole distance', () => {
+    expect(measureShot(shot(1, 1, 'green', 'green', 4)).carry).toBe(4);
+  });
+});
+
+describe('calculateRoundStats', () => {
+  test('counts greens in regulation with two putts to spare', () => {
+    const shots = [
+      // Par 4 reached in two
+      shot(1, 1, 'tee', 'fairway'), shot(1, 2, 'fairway', 'green'), shot(1, 3, 'green', 'green'), shot(1, 4, 'green', undefined, 1, 'holed'),
+      // Par 3 missed, chipped on in two
+      shot(2, 1, 'tee', 'rough'), shot(2, 2, 'rough', 'green'), shot(2, 3, 'green', undefined, 1, 'holed'),
+      // Par 3 holed from off the green in one
+      shot(3, 1, 'tee', undefined, 10, 'holed'),
+    ];
+
+    const stats = calculateRoundStats(shots, [4, 3, 3], [4, 3, 1], [0, 0, 0]);
+    expect(stats.greensInRegulation).toBe(2);
+    expect(stats.greenChances).toBe(3);
+    expect(stats.putts).toBe(3);
+  });
+
+  test('penalty strokes count against regulation', () => {
+    const shots = [shot(1, 1, 'tee', 'water'), shot(1, 3, 'fairway', 'green'), shot(1, 4, 'green', undefined, 1, 'holed')];
+
+    expect(calculateRoundStats(shots, [4], [4], [1]).greensInRegulation).toBe(0);
+  });
+
+  test('a sand save is onto the green from a bunker and still par or better', () => {
+    const shots = [
+      shot(1, 1, 'tee', 'sand'), shot(1, 2, 'sand', 'green'), shot(1, 3, 'green', undefined, 1, 'holed'),
+      shot(2, 1, 'tee', 'sand'), shot(2, 2, 'sand', 'green'), shot(2, 3, 'green', 'green'), shot(2, 4, 'green', undefined, 1, 'holed'),
+      shot(3, 1, 'tee', 'sand'), shot(3, 2, 'sand', 'sand'), shot(3, 3, 'sand', 'rough'),
+    ];
+
+    const stats = calculateRoundStats(shots, [3, 3, 3], [3, 4, 5], [0, 0, 0]);
+    expect(stats.sandSaves).toBe(1);
+    expect(stats.sandSaveChances).toBe(2);
+  });
+
+  test('fairways and the longest drive only count par 4 and 5 tee shots in play', () => {
+    const shots = [
+      shot(1, 1, 'tee', 'fairway', 180),
+      shot(2, 1, 'tee', 'rough', 210),
+      shot(3, 1, 'tee', 'green', 250),
+      shot(4, 1, 'tee', 'water', 300),
+    ];
+
+    const stats = calculateRoundStats(shots, [4, 5, 3, 4], [4, 5, 3, 6], [0, 0, 0, 1]);
+    expect(stats.fairwaysHit).toBe(1);
+    expect(stats.fairwayChances).toBe(3);
+    expect(stats.longestDrive).toBe(210);
+    expect(stats.penalties).toBe(1);
+  });
+
+  test('holes not played are left out', () => {
+    const stats = calculateRoundStats([shot(2, 1, 'tee', 'fairway')], [4, 4], [4, undefined], [0, 0]);
+
+    expect(stats.greenChances).toBe(1);
+    expect(stats.fairwayChances).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Shot Stats - Measuring shots and summing up a round
+ *
+ * Turns recorded shots into the numbers golfers track:
+ * - Carry, roll, total distance and apex of every shot
+ * - Fairways hit, greens in regulation, putts and sand saves for a round
+ * - Penalty strokes and the longest drive
+ *
+ * Pure functions with no World dependency.
+ */
+
+import type { Vector3Like } from 'hytopia';
+
+import { getShotDistance, type ShotRecording } from '../replay/ShotRecorder.ts';
+
+export interface ShotMeasurement {
+  carry: number;            // Horizontal distance to where the ball first came down
+  roll: number;             // After landing; negative when backspin pulled it back
+  total: number;
+  apex: number;             // Highest point above where the ball was struck
+}
+
+export interface RoundStats {
+  fairwaysHit: number;
+  fairwayChances: number;   // Par 4 and 5 tee shots
+  greensInRegulation: number;
+  greenChances: number;     // Holes played
+  putts: number;
+  sandSaves: number;
+  sandSaveChances: number;  // Holes where a bunker shot found the green
+  penalties: number;
+  longestDrive: number;     // Longest par 4 or 5 tee shot, 0 if none stayed in play
+}
+
+/**
+ * Measure a finished shot from its recorded path
+ */
+export function measureShot(shot: ShotRecording): ShotMeasurement {
+  const total = getShotDistance(shot);
+  const carry = shot.landing ? getHorizontalDistance(shot.from, shot.landing) : total;
+  const highest = Math.max(shot.from.y, ...shot.samples.map(sample => sample.y));
+
+  return {
+    carry: roundDistance(carry),
+    roll: roundDistance(total - carry),
+    total: roundDistance(total),
+    apex: roundDistance(highest - shot.from.y),
+  };
+}
+
+/**
+ * Sum up a player's round from their shots and scorecard
+ */
+export function calculateRoundStats(
+  shots: ShotRecording[],
+  pars: number[],
+  strokes: (number | undefined)[],
+  penalties: number[],
+): RoundStats {
+  const stats: RoundStats = {
+    fairwaysHit: 0,
+    fairwayChances: 0,
+    greensInRegulation: 0,
+    greenChances: 0,
+    putts: 0,
+    sandSaves: 0,
+    sandSaveChances: 0,
+    penalties: penalties.reduce((total, holePenalties) => total + (holePenalties ?? 0), 0),
+    longestDrive: 0,
+  };
+
+  pars.forEach((par, holeIndex) => {
+    const score = strokes[holeIndex];
+    if (score === undefined) return;
+
+    const holeShots = shots
+      .filter(shot => shot.holeNumber === holeIndex + 1)
+      .sort((a, b) => a.strokeNumber - b.strokeNumber);
+    const reachesGreen = (shot: ShotRecording) => shot.endSurface === 'green' || shot.endLie === 'holed';
+
+    // Fairways only count off the tee on holes long enough to need a drive
+    const teeShot = holeShots[0];
+    if (par >= 4 && teeShot) {
+      stats.fairwayChances++;
+      if (teeShot.endSurface === 'fairway') stats.fairwaysHit++;
+      if (teeShot.endLie !== 'water' && teeShot.endLie !== 'out-of-bounds') {
+        stats.longestDrive = Math.max(stats.longestDrive, roundDistance(getShotDistance(teeShot)));
+      }
+    }
+
+    // On the green with two putts to spare for par (stroke numbers include penalties)
+    stats.greenChances++;
+    if (holeShots.some(shot => reachesGreen(shot) && shot.strokeNumber <= par - 2)) {
+      stats.greensInRegulation++;
+    }
+
+    stats.putts += holeShots.filter(shot => shot.startSurface === 'green').length;
+
+    // Up and down from a bunker: onto the green from the sand and still par or better
+    if (holeShots.some(shot => shot.startSurface === 'sand' && reachesGreen(shot))) {
+      stats.sandSaveChances++;
+      if (score <= par) stats.sandSaves++;
+    }
+  });
+
+  return stats;
+}
+
+function getHorizontalDistance(from: Vector3Like, to: Vector3Like): number {
+  return Math.sqrt((to.x - from.x) ** 2 + (to.z - from.z) ** 2);
+}
+
+function roundDistance(distance: number): number {
+  return Math.round(distance * 10) / 10;
+}
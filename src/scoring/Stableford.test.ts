@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  canPickUp,
+  createStablefordConfig,
+  getPickUpStrokes,
+  getStablefordPoints,
+  DEFAULT_STABLEFORD_CONFIG,
+} from './Stableford.ts';
+
+// Modified Stableford, as played on tour
+const MODIFIED = createStablefordConfig({
+  points: { 'albatross': 8, 'eagle': 5, 'birdie': 2, 'par': 0, 'bogey': -1, 'double-bogey': -3, 'triple-bogey+': -3 },
+});
+
+describe('getStablefordPoints', () => {
+  test('scores each result from the default table', () => {
+    expect([2, 3, 4, 5, 6, 7, 8].map(strokes => getStablefordPoints(strokes, 5, 0, DEFAULT_STABLEFORD_CONFIG)))
+      .toEqual([5, 4, 3, 2, 1, 0, 0]);
+  });
+
+  test('scores net strokes when the event is net', () => {
+    const net = createStablefordConfig({ net: true });
+
+    expect(getStablefordPoints(5, 4, 1, net)).toBe(2);
+    expect(getStablefordPoints(5, 4, 1, DEFAULT_STABLEFORD_CONFIG)).toBe(1);
+  });
+
+  test('keeps negative points from the event table', () => {
+    expect(getStablefordPoints(5, 4, 0, MODIFIED)).toBe(-1);
+    expect(getStablefordPoints(9, 4, 0, MODIFIED)).toBe(-3);
+  });
+
+  test('event tables fill in from the defaults', () => {
+    const config = createStablefordConfig({ points: { birdie: 4 } });
+
+    expect(getStablefordPoints(3, 4, 0, config)).toBe(4);
+    expect(getStablefordPoints(4, 4, 0, config)).toBe(2);
+  });
+});
+
+describe('picking up', () => {
+  test('allowed once the next stroke can only score no points', () => {
+    // Par 4: the fourth stroke would still be a bogey at best, the fifth a double bogey
+    expect(canPickUp(4, 4, 0, DEFAULT_STABLEFORD_CONFIG)).toBe(false);
+    expect(canPickUp(5, 4, 0, DEFAULT_STABLEFORD_CONFIG)).toBe(true);
+  });
+
+  test('handicap strokes keep a net player in the hole longer', () => {
+    const net = createStablefordConfig({ net: true });
+
+    expect(canPickUp(5, 4, 1, net)).toBe(false);
+    expect(canPickUp(6, 4, 1, net)).toBe(true);
+  });
+
+  test('uses the lowest points in the table, even when they are negative', () => {
+    expect(canPickUp(4, 4, 0, MODIFIED)).toBe(false);
+    expect(canPickUp(5, 4, 0, MODIFIED)).toBe(true);
+  });
+
+  test('picked-up holes count as net double bogey at best', () => {
+    expect(getPickUpStrokes(5, 4, 0)).toBe(6);
+    expect(getPickUpStrokes(5, 4, 1)).toBe(7);
+    expect(getPickUpStrokes(8, 4, 0)).toBe(9);
+  });
+});
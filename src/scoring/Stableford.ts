@@ -0,0 +1,74 @@
+/**
+ * Stableford - Points per hole instead of counting every stroke
+ *
+ * Turns each hole's result into points so one bad hole doesn't end a round:
+ * - Configurable points table per event (birdie, par, bogey...), negative points included
+ * - Optional net scoring off handicap strokes
+ * - Knowing when a player can no longer improve on the hole and may pick up
+ *
+ * Pure functions with no World dependency.
+ */
+
+import { getRelativeScoreType, type RelativeScoreType } from './ScoreType.ts';
+
+export type StablefordPointsTable = Record<RelativeScoreType, number>;
+
+export interface StablefordConfig {
+  points: StablefordPointsTable;
+  net: boolean;             // Score off net strokes (gross minus handicap strokes)
+}
+
+// Event settings, anything left out uses the defaults
+export interface StablefordOptions {
+  points?: Partial<StablefordPointsTable>;
+  net?: boolean;
+}
+
+export const DEFAULT_STABLEFORD_POINTS: StablefordPointsTable = {
+  'albatross': 5,
+  'eagle': 4,
+  'birdie': 3,
+  'par': 2,
+  'bogey': 1,
+  'double-bogey': 0,
+  'triple-bogey+': 0,
+};
+
+export const DEFAULT_STABLEFORD_CONFIG: StablefordConfig = {
+  points: DEFAULT_STABLEFORD_POINTS,
+  net: false,
+};
+
+/**
+ * Fill in an event's Stableford settings from the defaults
+ */
+export function createStablefordConfig(options: StablefordOptions = {}): StablefordConfig {
+  return {
+    points: { ...DEFAULT_STABLEFORD_POINTS, ...options.points },
+    net: options.net ?? DEFAULT_STABLEFORD_CONFIG.net,
+  };
+}
+
+/**
+ * Points for a finished hole
+ */
+export function getStablefordPoints(strokes: number, par: number, handicapStrokes: number, config: StablefordConfig): number {
+  const score = config.net ? strokes - handicapStrokes : strokes;
+  return config.points[getRelativeScoreType(score, par)];
+}
+
+/**
+ * Check whether a player still on the hole can do no better than the table's lowest points
+ */
+export function canPickUp(strokesTaken: number, par: number, handicapStrokes: number, config: StablefordConfig): boolean {
+  const lowestPoints = Math.min(...Object.values(config.points));
+  return getStablefordPoints(strokesTaken + 1, par, handicapStrokes, config) <= lowestPoints;
+}
+
+/**
+ * Strokes recorded for a picked-up hole: the next score they could have made,
+ * but never better than net double bogey
+ */
+export function getPickUpStrokes(strokesTaken: number, par: number, handicapStrokes: number): number {
+  return Math.max(strokesTaken + 1, par + 2 + Math.max(0, handicapStrokes));
+}
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+
+import TeamPlay, { createTeams, pickScrambleBall, type TeamMember } from './TeamPlay.ts';
+
+const PLAYERS: TeamMember[] = ['ann', 'bob', 'cat', 'dan', 'eve'].map(id => ({ id, username: id.toUpperCase() }));
+
+describe('createTeams', () => {
+  test('pairs everyone up in the order they joined', () => {
+    const teams = createTeams(PLAYERS, new Map());
+
+    expect(teams.map(team => team.name)).toEqual(['ANN & BOB', 'CAT & DAN', 'EVE']);
+    expect(teams.map(team => team.id)).toEqual(['team-1', 'team-2', 'team-3']);
+  });
+
+  test('chosen team names come first, then pairs of everyone else', () => {
+    const assignments = new Map([['bob', 'Eagles'], ['eve', 'Eagles'], ['dan', 'Birdies']]);
+    const teams = createTeams(PLAYERS, assignments);
+
+    expect(teams.map(team => team.name)).toEqual(['Eagles', 'Birdies', 'ANN & CAT']);
+    expect(teams[0]!.members.map(member => member.id)).toEqual(['bob', 'eve']);
+    expect(teams[1]!.members.map(member => member.id)).toEqual(['dan']);
+    expect(new Set(teams.map(team => team.id)).size).toBe(teams.length);
+  });
+
+  test('uses the team size asked for', () => {
+    const teams = createTeams(PLAYERS, new Map(), 3);
+
+    expect(teams.map(team => team.members.length)).toEqual([3, 2]);
+  });
+
+  test('new teams start with an empty scorecard', () => {
+    const [team] = createTeams(PLAYERS.slice(0, 2), new Map());
+
+    expect(team!.strokes).toEqual([]);
+    expect(team!.totalStrokes).toBe(0);
+  });
+});
+
+describe('pickScrambleBall', () => {
+  test('plays on from the ball nearest the hole', () => {
+    const position = { x: 0, y: 0, z: 0 };
+    const candidates = [
+      { playerId: 'ann', position, distanceToHole: 12 },
+      { playerId: 'bob', position, distanceToHole: 4 },
+      { playerId: 'cat', position, distanceToHole: 9 },
+    ];
+
+    expect(pickScrambleBall(candidates)?.playerId).toBe('bob');
+    expect(candidates[0]!.playerId).toBe('ann');
+    expect(pickScrambleBall([])).toBeUndefined();
+  });
+});
+
+describe('TeamPlay', () => {
+  function createPlay() {
+    return new TeamPlay('alternate-shot', createTeams(PLAYERS.slice(0, 4), new Map()));
+  }
+
+  test('finds the team a player is on', () => {
+    const play = createPlay();
+
+    expect(play.getTeamForPlayer('dan')?.name).toBe('CAT & DAN');
+    expect(play.getTeamForPlayer('eve')).toBeUndefined();
+  });
+
+  test('alternate shot takes turns on the tee and between shots', () => {
+    const play = createPlay();
+    const team = play.getTeams()[0]!;
+
+    expect([0, 1, 2].map(holeIndex => play.getTeeShotPlayer(team, holeIndex))).toEqual(['ann', 'bob', 'ann']);
+    expect(play.getNextHitter(team, 'ann')).toBe('bob');
+    expect(play.getNextHitter(team, 'bob')).toBe('ann');
+  });
+
+  test('best ball takes the lowest member score', () => {
+    const play = createPlay();
+
+    expect(play.getBestBallScore([5, undefined, 4])).toBe(4);
+    expect(play.getBestBallScore([undefined])).toBeUndefined();
+  });
+
+  test('records each team hole once and ranks by holes played, then total', () => {
+    const play = createPlay();
+    play.recordTeamHole('team-1', 0, 5);
+    play.recordTeamHole('team-1', 0, 3);
+    play.recordTeamHole('team-2', 0, 3);
+    play.recordTeamHole('team-2', 1, 4);
+
+    expect(play.hasTeamScore('team-1', 0)).toBe(true);
+    expect(play.hasTeamScore('team-1', 1)).toBe(false);
+    expect(play.getStandings().map(standing => [standing.teamId, standing.thru, standing.totalStrokes])).toEqual([
+      ['team-2', 2, 7],
+      ['team-1', 1, 5],
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Team Play - Teams and team scorecards for team formats
+ *
+ * Keeps track of teams and how they score in each format:
+ * - Scramble: everyone hits, the team plays on from its best ball
+ * - Best ball: the team scores the lowest of its members on each hole
+ * - Alternate shot: teammates take turns hitting one ball
+ *
+ * Pure class with no World dependency; the game manager runs the turns.
+ */
+
+import type { Vector3Like } from 'hytopia';
+
+export type TeamFormat = 'scramble' | 'best-ball' | 'alternate-shot';
+
+// Players who haven't picked a team are paired up in the order they joined
+export const DEFAULT_TEAM_SIZE = 2;
+
+export interface TeamMember {
+  id: string;
+  username: string;
+}
+
+export interface GolfTeam {
+  id: string;
+  name: string;
+  members: TeamMember[];
+  strokes: number[];        // Team strokes per hole
+  totalStrokes: number;
+}
+
+export interface TeamStanding {
+  teamId: string;
+  name: string;
+  members: string[];        // Usernames
+  strokes: number[];
+  totalStrokes: number;
+  thru: number;             // Holes completed
+}
+
+export interface ScrambleCandidate {
+  playerId: string;
+  position: Vector3Like;
+  distanceToHole: number;
+}
+
+/**
+ * Put players into teams: chosen team names first, then pairs of everyone else
+ */
+export function createTeams(
+  players: TeamMember[],
+  assignments: Map<string, string>,
+  teamSize: number = DEFAULT_TEAM_SIZE,
+): GolfTeam[] {
+  const teams = new Map<string, GolfTeam>();
+  const createTeam = (name: string): GolfTeam => ({
+    id: `team-${teams.size + 1}`,
+    name,
+    members: [],
+    strokes: [],
+    totalStrokes: 0,
+  });
+
+  const unassigned: TeamMember[] = [];
+  players.forEach(player => {
+    const name = assignments.get(player.id);
+    if (!name) {
+      unassigned.push(player);
+      return;
+    }
+
+    const team = teams.get(name) ?? createTeam(name);
+    teams.set(name, team);
+    team.members.push(player);
+  });
+
+  for (let index = 0; index < unassigned.length; index += teamSize) {
+    const members = unassigned.slice(index, index + teamSize);
+    const team = createTeam(members.map(member => member.username).join(' & '));
+    team.members.push(...members);
+    teams.set(team.id, team);
+  }
+
+  return [...teams.values()];
+}
+
+/**
+ * Pick the scramble ball to play on from: the one nearest the hole
+ */
+export function pickScrambleBall(candidates: ScrambleCandidate[]): ScrambleCandidate | undefined {
+  return [...candidates].sort((a, b) => a.distanceToHole - b.distanceToHole)[0];
+}
+
+export default class TeamPlay {
+  private _format: TeamFormat;
+  private _teams: GolfTeam[];
+
+  constructor(format: TeamFormat, teams: GolfTeam[]) {
+    this._format = format;
+    this._teams = teams;
+  }
+
+  /**
+   * Get the team format being played
+   */
+  public getFormat(): TeamFormat {
+    return this._format;
+  }
+
+  /**
+   * Get every team
+   */
+  public getTeams(): GolfTeam[] {
+    return this._teams;
+  }
+
+  /**
+   * Find the team a player is on
+   */
+  public getTeamForPlayer(playerId: string): GolfTeam | undefined {
+    return this._teams.find(team => team.members.some(member => member.id === playerId));
+  }
+
+  /**
+   * Alternate shot: teammates take turns driving, starting with the first member on hole 1
+   */
+  public getTeeShotPlayer(team: GolfTeam, holeIndex: number): string | undefined {
+    return team.members[holeIndex % team.members.length]?.id;
+  }
+
+  /**
+   * Alternate shot: the teammate who plays after the given player
+   */
+  public getNextHitter(team: GolfTeam, lastHitterId: string): string | undefined {
+    const index = team.members.findIndex(member => member.id === lastHitterId);
+    return team.members[(index + 1) % team.members.length]?.id;
+  }
+
+  /**
+   * Best ball: the team's score is its best member's score
+   */
+  public getBestBallScore(memberScores: (number | undefined)[]): number | undefined {
+    const scores = memberScores.filter((score): score is number => score !== undefined);
+    return scores.length > 0 ? Math.min(...scores) : undefined;
+  }
+
+  /**
+   * Check whether a team has a score for a hole yet
+   */
+  public hasTeamScore(teamId: string, holeIndex: number): boolean {
+    return this._teams.find(team => team.id === teamId)?.strokes[holeIndex] !== undefined;
+  }
+
+  /**
+   * Put a team score on the team's scorecard
+   */
+  public recordTeamHole(teamId: string, holeIndex: number, strokes: number): void {
+    const team = this._teams.find(candidate => candidate.id === teamId);
+    if (!team || team.strokes[holeIndex] !== undefined) return;
+
+    team.strokes[holeIndex] = strokes;
+    team.totalStrokes += strokes;
+  }
+
+  /**
+   * Team leaderboard: teams that have finished more holes first, then lowest total
+   */
+  public getStandings(): TeamStanding[] {
+    return this._teams
+      .map(team => ({
+        teamId: team.id,
+        name: team.name,
+        members: team.members.map(member => member.username),
+        strokes: [...team.strokes],
+        totalStrokes: team.totalStrokes,
+        thru: team.strokes.filter(strokes => strokes !== undefined).length,
+      }))
+      .sort((a, b) => b.thru - a.thru || a.totalStrokes - b.totalStrokes);
+  }
+}